@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/**
+ * Mock MQTT-over-WebSocket broker with simulated field gateways
+ *
+ * Every device publishes its records to `carrygreen/<deviceId>/telemetry`
+ * at QoS 1 and retained, like the gateways on site. Other MQTT clients may
+ * connect and publish too.
+ *
+ *   npm run mock:mqtt
+ *
+ * Settings come from environment variables:
+ *   PORT           port to listen on (default 8788)
+ *   MOCK_TOKEN     password clients must send in CONNECT (default: no auth)
+ *   MOCK_DEVICES   number of simulated inverters (default 2)
+ *   MOCK_INTERVAL  milliseconds between records (default 5000)
+ *   MOCK_TIMEZONE  IANA zone of the simulated site (default UTC)
+ */
+
+import { createServer } from 'node:http';
+import { attachWebSocketServer } from './websocket.mjs';
+import { createMqttBroker } from './mqtt.mjs';
+import { createDevices } from './records.mjs';
+
+const port = Number(process.env.PORT ?? 8788);
+const password = process.env.MOCK_TOKEN || null;
+const interval = Number(process.env.MOCK_INTERVAL ?? 5000);
+const devices = createDevices(Number(process.env.MOCK_DEVICES ?? 2), process.env.MOCK_TIMEZONE ?? 'UTC');
+
+const broker = createMqttBroker({ password });
+
+const publishReadings = () => {
+  const now = new Date();
+  devices.forEach(device => {
+    const record = device.next(now);
+    broker.publish(`carrygreen/${device.id}/telemetry`, JSON.stringify(record), { qos: 1, retain: true });
+  });
+};
+publishReadings();
+setInterval(publishReadings, interval);
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end(`CarryGreen mock MQTT broker, ${devices.length} devices. Connect over WebSocket with the mqtt subprotocol.\n`);
+});
+
+attachWebSocketServer(
+  server,
+  (connection, request) => broker.handleConnection(connection, request.socket.remoteAddress),
+  { protocols: ['mqtt'] }
+);
+
+server.listen(port, () => {
+  console.log(`Mock MQTT broker on ws://localhost:${port}/mqtt`
+    + ` (${devices.length} devices, ${interval} ms interval${password ? ', password required' : ''})`);
+});
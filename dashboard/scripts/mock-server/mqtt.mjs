@@ -0,0 +1,332 @@
+/**
+ * Minimal MQTT 3.1.1 broker for WebSocket connections from websocket.mjs
+ *
+ * Supports what the dashboard's MQTT transport and simple gateways need:
+ * CONNECT with an optional password, SUBSCRIBE / UNSUBSCRIBE with `+` and
+ * `#` wildcards, PUBLISH at QoS 0 and 1 in both directions, retained
+ * messages and keep-alive pings. No QoS 2, wills or persistent sessions.
+ */
+
+const PACKET = {
+  connect: 1,
+  connack: 2,
+  publish: 3,
+  puback: 4,
+  subscribe: 8,
+  suback: 9,
+  unsubscribe: 10,
+  unsuback: 11,
+  pingreq: 12,
+  pingresp: 13,
+  disconnect: 14,
+};
+
+const CONNACK = { accepted: 0, badProtocol: 1, badCredentials: 4 };
+
+// Unacknowledged QoS 1 messages are sent again after this long
+const REDELIVERY_DELAY = 10000;
+
+/**
+ * Encodes a packet from its type, flags and body
+ */
+function encodePacket(type, flags, body = Buffer.alloc(0)) {
+  const length = [];
+  let remaining = body.length;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) byte |= 0x80;
+    length.push(byte);
+  } while (remaining > 0);
+  return Buffer.concat([Buffer.from([(type << 4) | flags, ...length]), body]);
+}
+
+/**
+ * Encodes a length-prefixed UTF-8 string
+ */
+function encodeString(value) {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+function encodeUInt16(value) {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+/**
+ * Decodes the first packet in a buffer, or returns null if it is incomplete
+ */
+function decodePacket(buffer) {
+  if (buffer.length < 2) return null;
+  let length = 0;
+  let multiplier = 1;
+  let offset = 1;
+  let byte;
+  do {
+    if (offset >= buffer.length) return null;
+    byte = buffer[offset++];
+    length += (byte & 0x7f) * multiplier;
+    multiplier *= 128;
+  } while (byte & 0x80);
+
+  if (buffer.length < offset + length) return null;
+  return {
+    type: buffer[0] >> 4,
+    flags: buffer[0] & 0x0f,
+    body: buffer.subarray(offset, offset + length),
+    size: offset + length,
+  };
+}
+
+/**
+ * Reads length-prefixed fields from a packet body
+ */
+function createReader(body) {
+  let offset = 0;
+  return {
+    uint8: () => body[offset++],
+    uint16: () => {
+      const value = body.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    },
+    bytes: () => {
+      const length = body.readUInt16BE(offset);
+      const value = body.subarray(offset + 2, offset + 2 + length);
+      offset += 2 + length;
+      return value;
+    },
+    string() {
+      return this.bytes().toString('utf8');
+    },
+    rest: () => body.subarray(offset),
+    done: () => offset >= body.length,
+  };
+}
+
+/**
+ * Checks a topic filter: `#` only as the last level, wildcards alone in their level
+ */
+function isValidFilter(filter) {
+  const levels = filter.split('/');
+  return filter.length > 0 && levels.every((level, i) =>
+    (level === '#' && i === levels.length - 1)
+    || level === '+'
+    || (!level.includes('#') && !level.includes('+'))
+  );
+}
+
+/**
+ * Checks whether a topic matches a filter
+ */
+export function topicMatches(filter, topic) {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * Creates a broker
+ *
+ * Pass each WebSocket connection (offered the `mqtt` subprotocol) to
+ * `handleConnection`. `publish(topic, payload, { qos, retain })` publishes
+ * from the broker's own process, e.g. simulated devices.
+ */
+export function createMqttBroker({ password = null, log = console.log } = {}) {
+  const sessions = new Set();
+  const retained = new Map();
+
+  const deliver = (topic, payload, qos, retain) => {
+    sessions.forEach(session => {
+      const granted = [...session.subscriptions]
+        .filter(([filter]) => topicMatches(filter, topic))
+        .map(([, subscriptionQos]) => subscriptionQos);
+      if (granted.length > 0) session.send(topic, payload, Math.min(qos, Math.max(...granted)), retain);
+    });
+  };
+
+  const publish = (topic, payload, { qos = 0, retain = false } = {}) => {
+    const bytes = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+    if (retain) {
+      // An empty retained message clears the topic's retained value
+      if (bytes.length === 0) retained.delete(topic);
+      else retained.set(topic, { payload: bytes, qos });
+    }
+    deliver(topic, bytes, qos, false);
+  };
+
+  const handleConnection = (connection, address = 'client') => {
+    let buffered = Buffer.alloc(0);
+    let clientId = null;
+    let keepAliveTimer = null;
+    let nextPacketId = 1;
+    const inflight = new Map();
+
+    const write = packet => connection.sendBinary(packet);
+
+    const session = {
+      subscriptions: new Map(),
+      send(topic, payload, qos, retain) {
+        const flags = (qos << 1) | (retain ? 1 : 0);
+        if (qos === 0) {
+          write(encodePacket(PACKET.publish, flags, Buffer.concat([encodeString(topic), payload])));
+          return;
+        }
+        const packetId = nextPacketId;
+        nextPacketId = nextPacketId === 0xffff ? 1 : nextPacketId + 1;
+        const body = Buffer.concat([encodeString(topic), encodeUInt16(packetId), payload]);
+        write(encodePacket(PACKET.publish, flags, body));
+        // Sent again with DUP set until the client acknowledges it
+        const timer = setInterval(() => write(encodePacket(PACKET.publish, flags | 0x08, body)), REDELIVERY_DELAY);
+        inflight.set(packetId, timer);
+      },
+    };
+
+    const resetKeepAlive = keepAlive => {
+      clearTimeout(keepAliveTimer);
+      if (keepAlive > 0) {
+        keepAliveTimer = setTimeout(() => connection.close(1000, 'Keep-alive timeout'), keepAlive * 1500);
+      }
+    };
+
+    const handleConnect = body => {
+      const reader = createReader(body);
+      const protocol = reader.string();
+      const level = reader.uint8();
+      const flags = reader.uint8();
+      const keepAlive = reader.uint16();
+      clientId = reader.string() || `anonymous-${Math.random().toString(36).slice(2, 8)}`;
+      if (flags & 0x04) {
+        reader.string();
+        reader.bytes();
+      }
+      if (flags & 0x80) reader.string();
+      const clientPassword = flags & 0x40 ? reader.bytes().toString('utf8') : null;
+
+      const reject = code => {
+        write(encodePacket(PACKET.connack, 0, Buffer.from([0, code])));
+        connection.close(1000, 'Connection refused');
+      };
+      if (protocol !== 'MQTT' || level !== 4) return reject(CONNACK.badProtocol);
+      if (password && clientPassword !== password) return reject(CONNACK.badCredentials);
+
+      session.keepAlive = keepAlive;
+      resetKeepAlive(keepAlive);
+      sessions.add(session);
+      write(encodePacket(PACKET.connack, 0, Buffer.from([0, CONNACK.accepted])));
+      log(`${address}: MQTT session started for ${clientId}`);
+    };
+
+    const handleSubscribe = body => {
+      const reader = createReader(body);
+      const packetId = reader.uint16();
+      const granted = [];
+      const filters = [];
+      while (!reader.done()) {
+        const filter = reader.string();
+        const qos = reader.uint8() & 0x03;
+        if (!isValidFilter(filter)) {
+          granted.push(0x80);
+          continue;
+        }
+        session.subscriptions.set(filter, Math.min(qos, 1));
+        granted.push(Math.min(qos, 1));
+        filters.push(filter);
+      }
+      write(encodePacket(PACKET.suback, 0, Buffer.concat([encodeUInt16(packetId), Buffer.from(granted)])));
+
+      // New subscribers get the last retained value of every matching topic
+      retained.forEach((message, topic) => {
+        const matching = filters.filter(filter => topicMatches(filter, topic));
+        if (matching.length === 0) return;
+        const qos = Math.max(...matching.map(filter => session.subscriptions.get(filter)));
+        session.send(topic, message.payload, Math.min(message.qos, qos), true);
+      });
+    };
+
+    const handleUnsubscribe = body => {
+      const reader = createReader(body);
+      const packetId = reader.uint16();
+      while (!reader.done()) session.subscriptions.delete(reader.string());
+      write(encodePacket(PACKET.unsuback, 0, encodeUInt16(packetId)));
+    };
+
+    const handlePublish = (flags, body) => {
+      const qos = (flags >> 1) & 0x03;
+      const reader = createReader(body);
+      const topic = reader.string();
+      if (qos === 2) {
+        connection.close(1000, 'QoS 2 is not supported');
+        return;
+      }
+      if (qos === 1) write(encodePacket(PACKET.puback, 0, encodeUInt16(reader.uint16())));
+      publish(topic, Buffer.from(reader.rest()), { qos, retain: (flags & 0x01) !== 0 });
+    };
+
+    const handlePacket = ({ type, flags, body }) => {
+      if (!sessions.has(session) && type !== PACKET.connect) {
+        connection.close(1002, 'The first packet must be CONNECT');
+        return;
+      }
+      resetKeepAlive(session.keepAlive ?? 0);
+
+      switch (type) {
+        case PACKET.connect:
+          if (sessions.has(session)) connection.close(1002, 'Second CONNECT');
+          else handleConnect(body);
+          break;
+        case PACKET.subscribe:
+          handleSubscribe(body);
+          break;
+        case PACKET.unsubscribe:
+          handleUnsubscribe(body);
+          break;
+        case PACKET.publish:
+          handlePublish(flags, body);
+          break;
+        case PACKET.puback: {
+          const packetId = body.readUInt16BE(0);
+          clearInterval(inflight.get(packetId));
+          inflight.delete(packetId);
+          break;
+        }
+        case PACKET.pingreq:
+          write(encodePacket(PACKET.pingresp, 0));
+          break;
+        case PACKET.disconnect:
+          connection.close(1000, 'Client disconnected');
+          break;
+        default:
+          connection.close(1002, `Unsupported packet type ${type}`);
+      }
+    };
+
+    // MQTT packets may be split across or share WebSocket messages
+    connection.onBinary = chunk => {
+      buffered = Buffer.concat([buffered, chunk]);
+      let packet;
+      while ((packet = decodePacket(buffered))) {
+        buffered = buffered.subarray(packet.size);
+        handlePacket(packet);
+      }
+    };
+
+    connection.onClose = (code, reason) => {
+      clearTimeout(keepAliveTimer);
+      inflight.forEach(timer => clearInterval(timer));
+      sessions.delete(session);
+      log(`${address}: MQTT ${clientId ?? 'client'} closed (${code}${reason ? ` ${reason}` : ''})`);
+    };
+  };
+
+  return { handleConnection, publish };
+}
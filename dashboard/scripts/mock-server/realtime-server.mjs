@@ -0,0 +1,270 @@
+#!/usr/bin/env node
+/**
+ * Mock real-time data server speaking the dashboard's real-time protocol
+ * (see src/types/realtime-protocol.ts and the README) over three transports:
+ *
+ *   ws://localhost:8787           WebSocket
+ *   http://localhost:8787/events  Server-Sent Events
+ *   http://localhost:8787/poll    HTTP long-polling
+ *
+ *   npm run mock:server
+ *
+ * Settings come from environment variables:
+ *   PORT           port to listen on (default 8787)
+ *   MOCK_TOKEN     token clients must send in hello (default: no auth)
+ *   MOCK_DEVICES   number of simulated inverters (default 2)
+ *   MOCK_INTERVAL  milliseconds between records (default 5000)
+ *   MOCK_BACKLOG   minutes of history sent after hello (default 60)
+ *   MOCK_TIMEZONE  IANA zone of the simulated site (default UTC)
+ */
+
+import { createServer } from 'node:http';
+import { attachWebSocketServer } from './websocket.mjs';
+import { createDevices, generateBacklog } from './records.mjs';
+
+const PROTOCOL_VERSION = 1;
+const HEARTBEAT_INTERVAL = 15000;
+// Longest a poll is held open, whatever the client asks for
+const MAX_POLL_WAIT = 30000;
+
+const port = Number(process.env.PORT ?? 8787);
+const token = process.env.MOCK_TOKEN || null;
+const interval = Number(process.env.MOCK_INTERVAL ?? 5000);
+const backlogMinutes = Number(process.env.MOCK_BACKLOG ?? 60);
+const timeZone = process.env.MOCK_TIMEZONE ?? 'UTC';
+const devices = createDevices(Number(process.env.MOCK_DEVICES ?? 2), timeZone);
+
+// Every client sees the same devices, so generate each reading once.
+// Records are numbered so long-polling clients can ask for the ones after a cursor.
+let sequence = 0;
+const backlog = generateBacklog(devices, backlogMinutes).map(record => ({ sequence: ++sequence, record }));
+const clients = new Set();
+
+setInterval(() => {
+  const now = new Date();
+  devices.forEach(device => {
+    const record = device.next(now);
+    backlog.push({ sequence: ++sequence, record });
+    clients.forEach(client => client.sendRecord(record));
+  });
+  backlog.splice(0, Math.max(0, backlog.length - backlogMinutes * devices.length));
+}, interval);
+
+const serverHello = () => ({
+  type: 'hello',
+  protocolVersion: PROTOCOL_VERSION,
+  serverId: 'carrygreen-mock',
+  heartbeatInterval: HEARTBEAT_INTERVAL,
+});
+const heartbeat = () => ({ type: 'heartbeat', timestamp: new Date().toISOString() });
+
+/**
+ * Checks a client's hello fields, returning the fatal error that rejects it
+ */
+function checkHello({ protocolVersion, token: clientToken }) {
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    return { type: 'error', code: 'unsupported_version', message: `Protocol version ${protocolVersion} is not supported`, fatal: true };
+  }
+  if (token && clientToken !== token) {
+    return { type: 'error', code: 'unauthorized', message: 'Invalid token', fatal: true };
+  }
+  return null;
+}
+
+/**
+ * Reads the hello fields SSE and long-polling clients put in the query string
+ */
+function helloFromQuery(query) {
+  return {
+    protocolVersion: Number(query.get('protocolVersion')),
+    clientId: query.get('clientId') ?? undefined,
+    token: query.get('token') ?? undefined,
+  };
+}
+
+// The dashboard runs on another origin
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+/**
+ * Server-Sent Events: hello and the backlog, then records and heartbeats
+ */
+function handleEvents(request, response, query) {
+  const address = request.socket.remoteAddress;
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = message => response.write(`data: ${JSON.stringify(message)}\n\n`);
+
+  const hello = helloFromQuery(query);
+  const error = checkHello(hello);
+  if (error) {
+    send(error);
+    response.end();
+    return;
+  }
+
+  const session = {
+    sendRecord: record => send({ type: 'data', record }),
+    heartbeatTimer: setInterval(() => send(heartbeat()), HEARTBEAT_INTERVAL),
+  };
+  clients.add(session);
+  send(serverHello());
+  send({ type: 'batch', records: backlog.map(entry => entry.record) });
+  console.log(`${address}: event stream started for ${hello.clientId ?? 'anonymous client'}`);
+
+  request.on('close', () => {
+    clearInterval(session.heartbeatTimer);
+    clients.delete(session);
+    console.log(`${address}: event stream closed`);
+  });
+}
+
+/**
+ * Long-polling: the first request (without a cursor) gets hello and the
+ * backlog; later ones get the records after their cursor, waiting up to
+ * `wait` milliseconds for one and answering with a heartbeat otherwise
+ */
+function handlePoll(request, response, query) {
+  const respond = (status, messages, cursor = String(sequence)) => {
+    response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    response.end(JSON.stringify({ messages, cursor }));
+  };
+
+  const hello = helloFromQuery(query);
+  const error = checkHello(hello);
+  if (error) {
+    respond(error.code === 'unauthorized' ? 401 : 400, [error]);
+    return;
+  }
+
+  if (!query.has('cursor')) {
+    respond(200, [serverHello(), { type: 'batch', records: backlog.map(entry => entry.record) }]);
+    console.log(`${request.socket.remoteAddress}: polling started for ${hello.clientId ?? 'anonymous client'}`);
+    return;
+  }
+
+  const cursor = Number(query.get('cursor'));
+  // Cursors from before a restart are unknown; the client starts a new session
+  if (!Number.isInteger(cursor) || cursor < 0 || cursor > sequence) {
+    respond(400, [{ type: 'error', code: 'bad_cursor', message: 'Unknown cursor', fatal: true }]);
+    return;
+  }
+  const pending = () => backlog.filter(entry => entry.sequence > cursor);
+  const answer = () => {
+    const entries = pending();
+    respond(200, entries.map(entry => ({ type: 'data', record: entry.record })), String(entries.at(-1)?.sequence ?? cursor));
+  };
+  if (pending().length > 0) {
+    answer();
+    return;
+  }
+
+  const wait = Math.min(Number(query.get('wait')) || 0, MAX_POLL_WAIT);
+  const session = {
+    // Answer after this round of records, so each device's record goes out together
+    sendRecord: () => {
+      cleanup();
+      setImmediate(answer);
+    },
+  };
+  const timer = setTimeout(() => {
+    cleanup();
+    respond(200, [heartbeat()], String(cursor));
+  }, wait);
+  const cleanup = () => {
+    clearTimeout(timer);
+    clients.delete(session);
+  };
+  clients.add(session);
+  request.on('close', cleanup);
+}
+
+const server = createServer((request, response) => {
+  const { pathname, searchParams } = new URL(request.url, 'http://localhost');
+  if (request.method === 'GET' && pathname === '/events') {
+    handleEvents(request, response, searchParams);
+    return;
+  }
+  if (request.method === 'GET' && pathname === '/poll') {
+    handlePoll(request, response, searchParams);
+    return;
+  }
+  response.writeHead(pathname === '/' ? 200 : 404, { 'Content-Type': 'text/plain' });
+  response.end(`CarryGreen mock real-time server, ${devices.length} devices.`
+    + ' Connect with a WebSocket, or GET /events or /poll.\n');
+});
+
+attachWebSocketServer(server, (connection, request) => {
+  const address = request.socket.remoteAddress;
+  let session = null;
+
+  const send = message => connection.send(JSON.stringify(message));
+  const fail = (code, message) => {
+    send({ type: 'error', code, message, fatal: true });
+    connection.close(4001, message);
+  };
+
+  // Clients must say hello promptly
+  const helloTimer = setTimeout(() => fail('hello_timeout', 'No hello received'), 10000);
+
+  connection.onMessage = text => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      send({ type: 'error', code: 'bad_message', message: 'Messages must be JSON', fatal: false });
+      return;
+    }
+
+    if (message?.type === 'heartbeat') {
+      send(heartbeat());
+      return;
+    }
+
+    if (message?.type !== 'hello') {
+      if (!session) fail('hello_required', 'The first message must be hello');
+      else send({ type: 'error', code: 'bad_message', message: `Unknown message type ${message?.type}`, fatal: false });
+      return;
+    }
+
+    if (session) return;
+    clearTimeout(helloTimer);
+    const error = checkHello(message);
+    if (error) {
+      fail(error.code, error.message);
+      return;
+    }
+
+    const wanted = Array.isArray(message.devices) ? new Set(message.devices) : null;
+    const isWanted = record => !wanted || wanted.has(record.userRecord.id);
+
+    session = {
+      sendRecord: record => {
+        if (isWanted(record)) send({ type: 'data', record });
+      },
+      heartbeatTimer: setInterval(() => send(heartbeat()), HEARTBEAT_INTERVAL),
+    };
+    clients.add(session);
+
+    send(serverHello());
+    send({ type: 'batch', records: backlog.map(entry => entry.record).filter(isWanted) });
+    console.log(`${address}: session started for ${message.clientId ?? 'anonymous client'}`);
+  };
+
+  connection.onClose = (code, reason) => {
+    clearTimeout(helloTimer);
+    if (session) {
+      clearInterval(session.heartbeatTimer);
+      clients.delete(session);
+    }
+    console.log(`${address}: closed (${code}${reason ? ` ${reason}` : ''})`);
+  };
+});
+
+server.listen(port, () => {
+  console.log(`Mock real-time server on ws://localhost:${port}, http://localhost:${port}/events and /poll`
+    + ` (${devices.length} devices, ${interval} ms interval${token ? ', token required' : ''})`);
+});
@@ -0,0 +1,136 @@
+/**
+ * Simulated CarryGreen inverter records for the mock servers
+ *
+ * Records have the InverterRecord JSON shape (src/types/inverter-data.ts).
+ * PV power follows the sun over the site's day, the battery charges from
+ * surplus PV and drains at night, and the energy counters only ever grow.
+ */
+
+/**
+ * Formats an instant's wall-clock date and time in a zone
+ */
+function zonedDateTime(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * Rounds to a number of decimals
+ */
+function round(value, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Creates a simulated device
+ *
+ * `next(date)` returns the device's record at an instant; instants should
+ * not go backwards.
+ */
+export function createDevice({ id, name, timeZone = 'UTC', peakPowerW = 2400 }) {
+  let soc = 60 + Math.random() * 30;
+  let dailyWh = 0;
+  let totalKWh = 1000 * Math.random();
+  let lastTime = null;
+  let lastDate = null;
+
+  return {
+    id,
+    next(date) {
+      const { date: day, time } = zonedDateTime(date, timeZone);
+      const [hour, minute] = time.split(':').map(Number);
+      const elapsedHours = lastTime === null ? 0 : Math.max(0, (date.getTime() - lastTime) / 3600000);
+      if (lastDate !== null && day !== lastDate) dailyWh = 0;
+      lastTime = date.getTime();
+      lastDate = day;
+
+      // Daylight from 06:00 to 18:00 local time, peaking at noon
+      const sun = Math.max(0, Math.sin(((hour + minute / 60 - 6) / 12) * Math.PI));
+      const powerW = sun > 0 ? peakPowerW * sun * (0.85 + Math.random() * 0.15) : 0;
+      const loadW = 350 + Math.random() * 150;
+      const gridOnline = Math.random() > 0.02;
+
+      const energyWh = powerW * elapsedHours;
+      dailyWh += energyWh;
+      totalKWh += energyWh / 1000;
+      soc = Math.min(100, Math.max(5, soc + ((powerW - loadW) * elapsedHours) / 50));
+
+      const batteryVoltage = 24 + soc * 0.045;
+      const pvVoltage = powerW > 0 ? 30 + sun * 8 : 0;
+
+      return {
+        userRecord: {
+          id,
+          name,
+          timestamp: { date: day, time, datetime: date.toISOString(), timeZone },
+          blackout: { reported: true, ratio: gridOnline ? 0 : 1 },
+        },
+        inverterSupply: { totalKWh: round(totalKWh * 0.8) },
+        pv: {
+          voltage: round(pvVoltage),
+          current: pvVoltage > 0 ? round(powerW / pvVoltage) : 0,
+          powerW: round(powerW),
+          dailyWh: round(dailyWh),
+          monthlyWd: null,
+          yearlyWm: null,
+          totalKWh: round(totalKWh),
+        },
+        battery: {
+          voltage: round(batteryVoltage),
+          current: round((powerW - loadW) / batteryVoltage),
+          temperature: round(25 + sun * 6 + Math.random()),
+          soc: Math.round(soc),
+        },
+        inverter: {
+          voltage: round(228 + Math.random() * 4),
+          current: round(loadW / 230),
+          frequency: 50,
+          state: 'online',
+        },
+        grid: {
+          voltage: gridOnline ? round(229 + Math.random() * 3) : 0,
+          current: gridOnline ? round(Math.random() * 2) : 0,
+          frequency: gridOnline ? 50 : 0,
+          state: gridOnline ? 'online' : 'offline',
+        },
+        status: { hex: gridOnline ? '0x03' : '0x01' },
+      };
+    },
+  };
+}
+
+/**
+ * Creates `count` devices named MOCK-0001, MOCK-0002, ...
+ */
+export function createDevices(count, timeZone = 'UTC') {
+  return Array.from({ length: count }, (_, i) => {
+    const number = String(i + 1).padStart(4, '0');
+    return createDevice({ id: `MOCK-${number}`, name: `Mock Inverter ${i + 1}`, timeZone, peakPowerW: 1800 + i * 600 });
+  });
+}
+
+/**
+ * Generates each device's records over the last `minutes`, one a minute,
+ * oldest first
+ */
+export function generateBacklog(devices, minutes, now = new Date()) {
+  const records = [];
+  for (let offset = minutes; offset > 0; offset--) {
+    const at = new Date(now.getTime() - offset * 60000);
+    devices.forEach(device => records.push(device.next(at)));
+  }
+  return records;
+}
@@ -0,0 +1,175 @@
+/**
+ * Minimal WebSocket server (RFC 6455) on Node's http module
+ *
+ * Supports what the mock servers need: unfragmented or fragmented text and
+ * binary messages, subprotocols, ping/pong and close. No extensions.
+ */
+
+import { createHash } from 'node:crypto';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+/**
+ * Encodes a server frame (servers never mask)
+ */
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decodes the first frame in a buffer, or returns null if it is incomplete
+ */
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { fin, opcode, payload, size: offset + length };
+}
+
+/**
+ * Accepts WebSocket upgrades on an http server
+ *
+ * `onConnection(connection, request)` is called for every client. The
+ * connection has `send(text)`, `sendBinary(buffer)`, `close(code, reason)`,
+ * and `onMessage` / `onBinary` / `onClose` callbacks to set. Binary messages
+ * close the connection unless `onBinary` is set.
+ *
+ * With `options.protocols`, clients must offer one of those subprotocols
+ * (e.g. `mqtt`); the first match is accepted.
+ */
+export function attachWebSocketServer(server, onConnection, options = {}) {
+  const supported = options.protocols ?? [];
+
+  server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const offered = (request.headers['sec-websocket-protocol'] ?? '').split(',').map(value => value.trim());
+    const protocol = supported.find(value => offered.includes(value));
+    if (supported.length > 0 && !protocol) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n'
+      + 'Upgrade: websocket\r\n'
+      + 'Connection: Upgrade\r\n'
+      + (protocol ? `Sec-WebSocket-Protocol: ${protocol}\r\n` : '')
+      + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+
+    let buffered = Buffer.alloc(0);
+    let fragments = [];
+    let fragmentOpcode = null;
+    let closed = false;
+
+    const connection = {
+      onMessage: () => {},
+      onBinary: () => connection.close(1003, 'Binary messages are not supported'),
+      onClose: () => {},
+      send(text) {
+        if (!closed) socket.write(encodeFrame(OPCODES.text, Buffer.from(text)));
+      },
+      sendBinary(buffer) {
+        if (!closed) socket.write(encodeFrame(OPCODES.binary, buffer));
+      },
+      close(code = 1000, reason = '') {
+        if (closed) return;
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        socket.end(encodeFrame(OPCODES.close, payload));
+        finish(code, reason);
+      },
+    };
+
+    const finish = (code, reason) => {
+      if (closed) return;
+      closed = true;
+      connection.onClose(code, reason);
+    };
+
+    socket.on('data', chunk => {
+      buffered = Buffer.concat([buffered, chunk]);
+      let frame;
+      while ((frame = decodeFrame(buffered))) {
+        buffered = buffered.subarray(frame.size);
+
+        switch (frame.opcode) {
+          case OPCODES.text:
+          case OPCODES.binary:
+          case OPCODES.continuation: {
+            if (frame.opcode !== OPCODES.continuation) fragmentOpcode = frame.opcode;
+            fragments.push(frame.payload);
+            if (!frame.fin) break;
+            const message = Buffer.concat(fragments);
+            fragments = [];
+            if (fragmentOpcode === OPCODES.binary) connection.onBinary(message);
+            else connection.onMessage(message.toString('utf8'));
+            break;
+          }
+          case OPCODES.ping:
+            socket.write(encodeFrame(OPCODES.pong, frame.payload));
+            break;
+          case OPCODES.close: {
+            const code = frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1005;
+            connection.close(code === 1005 ? 1000 : code);
+            break;
+          }
+          default:
+            break;
+        }
+      }
+    });
+
+    socket.on('close', () => finish(1006, 'Connection lost'));
+    socket.on('error', () => finish(1006, 'Connection lost'));
+
+    onConnection(connection, request);
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Server-Sent Events stream of records polled by the Modbus gateway
+ *
+ * Point the dashboard's `sse` transport at `/api/realtime/modbus`. The
+ * gateway starts with the first request; see `@/services/modbus` for its
+ * environment variables. Set REALTIME_TOKEN to require a token.
+ */
+
+import { ErrorMessage } from '@/types';
+import { getModbusGateway, ModbusGateway } from '@/services/modbus';
+import { createEventStreamResponse } from '@/lib/event-stream';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request): Promise<Response> {
+  let gateway: ModbusGateway | null = null;
+  let error: ErrorMessage | null = null;
+  try {
+    gateway = await getModbusGateway();
+  } catch (startError) {
+    const message = startError instanceof Error ? startError.message : String(startError);
+    error = { type: 'error', code: 'gateway_failed', message: `Modbus gateway could not start: ${message}`, fatal: true };
+  }
+  if (!gateway && !error) {
+    error = {
+      type: 'error',
+      code: 'not_configured',
+      message: 'No Modbus devices are configured (set MODBUS_DEVICES or MODBUS_SIMULATOR=1)',
+      fatal: true,
+    };
+  }
+
+  const options = { serverId: 'carrygreen-modbus', token: process.env.REALTIME_TOKEN, error };
+  return createEventStreamResponse(request, options, send => {
+    if (!gateway) return;
+    send({ type: 'batch', records: gateway.getBacklog() });
+    return gateway.subscribe({
+      onRecord: record => send({ type: 'data', record }),
+      onError: (device, deviceError) => send({
+        type: 'error',
+        code: 'device_unreachable',
+        message: `${device.id}: ${deviceError.message}`,
+        fatal: false,
+      }),
+    });
+  });
+}
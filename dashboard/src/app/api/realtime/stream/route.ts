@@ -0,0 +1,28 @@
+/**
+ * Server-Sent Events stream of simulated records
+ *
+ * Speaks the real-time protocol (see `@/types/realtime-protocol`), so the
+ * dashboard can use the `sse` transport with `/api/realtime/stream` as its URL
+ * without a separate server. `?interval=` sets the milliseconds between
+ * records. Set REALTIME_TOKEN to require a token.
+ */
+
+import { DataGenerator } from '@/services/data-generator';
+import { createEventStreamResponse } from '@/lib/event-stream';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RECORD_INTERVAL = 5000; // milliseconds
+const MIN_RECORD_INTERVAL = 1000; // milliseconds
+
+export function GET(request: Request): Response {
+  const query = new URL(request.url).searchParams;
+  const recordInterval = Math.max(Number(query.get('interval')) || DEFAULT_RECORD_INTERVAL, MIN_RECORD_INTERVAL);
+
+  return createEventStreamResponse(request, { serverId: 'carrygreen-dashboard', token: process.env.REALTIME_TOKEN }, send => {
+    const generator = new DataGenerator();
+    send({ type: 'batch', records: generator.generateHistoricalData(1) });
+    const timer = setInterval(() => send({ type: 'data', record: generator.generateRealtimeData() }), recordInterval);
+    return () => clearInterval(timer);
+  });
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { RealtimeDataProvider } from "@/context/realtime-data-context";
+import { TimeDisplayProvider } from "@/context/time-display-context";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -28,9 +29,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <RealtimeDataProvider autoConnect={true} updateInterval={5000}>
-          {children}
-        </RealtimeDataProvider>
+        <TimeDisplayProvider>
+          <RealtimeDataProvider autoConnect={true} updateInterval={5000}>
+            {children}
+          </RealtimeDataProvider>
+        </TimeDisplayProvider>
       </body>
     </html>
   );
@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button"
 import { TrendingUp } from "lucide-react"
 import { KPICards } from "@/components/dashboard/kpi-cards"
 import { BatteryGauge } from "@/components/dashboard/battery-gauge"
+import { SystemStatusPanel } from "@/components/dashboard/system-status-panel"
+import { LiveEnergyProfile } from "@/components/dashboard/live-energy-profile"
 
 export default function Home() {
   return (
@@ -43,30 +45,23 @@ export default function Home() {
         </DashboardCard>
       </DashboardGrid>
 
+      {/* Live hourly profile and daily totals */}
+      <DashboardGrid className="grid-cols-1 mt-6">
+        <DashboardCard
+          title="Energy Profile"
+          description="Hourly PV power today and daily energy totals from the live feed"
+        >
+          <LiveEnergyProfile />
+        </DashboardCard>
+      </DashboardGrid>
+
       {/* System Status and Controls */}
       <DashboardGrid className="grid-cols-1 md:grid-cols-2 mt-6">
         <DashboardCard
           title="System Status"
           description="Current system health and alerts"
         >
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Solar Panels</span>
-              <span className="text-sm font-medium text-green-600">Online</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Inverter</span>
-              <span className="text-sm font-medium text-green-600">Active</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Grid Connection</span>
-              <span className="text-sm font-medium text-green-600">Connected</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Data Logger</span>
-              <span className="text-sm font-medium text-blue-600">Recording</span>
-            </div>
-          </div>
+          <SystemStatusPanel />
         </DashboardCard>
 
         <DashboardCard
@@ -80,9 +75,11 @@ export default function Home() {
             <Button className="w-full" variant="outline">
               Generate Report
             </Button>
-            <Button className="w-full" variant="outline">
-              System Settings
-            </Button>
+            <a href="/settings">
+              <Button className="w-full" variant="outline">
+                System Settings
+              </Button>
+            </a>
             <a href="/test-parser">
               <Button className="w-full" variant="secondary">
                 Test CSV Parser
@@ -0,0 +1,553 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DashboardLayout, DashboardCard, DashboardGrid } from '@/components/layout/dashboard-layout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  VALIDATION_FIELDS,
+  BUILT_IN_VALIDATION_PROFILES,
+  loadValidationProfiles,
+  saveValidationProfiles,
+  resetValidationProfiles,
+  getActiveProfileId,
+  setActiveProfileId,
+  DEFAULT_SITE_TIME_ZONES,
+  loadSiteTimeZones,
+  saveSiteTimeZones,
+} from '@/lib/csv';
+import { isValidTimeZone } from '@/lib/timezone';
+import { DEFAULT_REALTIME_SETTINGS, loadRealtimeSettings, saveRealtimeSettings } from '@/services/realtime-settings';
+import { getWebSocketService } from '@/services/websocket-service';
+import { isValidTopicFilter } from '@/services/transports';
+import { useConnectionStatus } from '@/context/realtime-data-context';
+import {
+  FieldValidationRule,
+  RealtimeSettings,
+  RealtimeTransportKind,
+  SiteTimeZoneConfig,
+  ValidationField,
+  ValidationProfile,
+} from '@/types';
+
+const RULE_KEYS: Array<{ key: keyof FieldValidationRule; label: string }> = [
+  { key: 'nominal', label: 'Nominal' },
+  { key: 'tolerance', label: '± Tolerance' },
+  { key: 'hardMin', label: 'Hard min' },
+  { key: 'hardMax', label: 'Hard max' },
+];
+
+const TRANSPORT_OPTIONS: Array<{ value: RealtimeSettings['transport']; label: string }> = [
+  { value: 'simulator', label: 'Simulator' },
+  { value: 'auto', label: 'Automatic' },
+  { value: 'websocket', label: 'WebSocket server' },
+  { value: 'sse', label: 'Server-Sent Events' },
+  { value: 'longpoll', label: 'HTTP long-polling' },
+  { value: 'mqtt', label: 'MQTT over WebSocket' },
+];
+
+/**
+ * Checks whether a string is a ws:// or wss:// URL
+ */
+function isWebSocketUrl(value: string): boolean {
+  try {
+    return ['ws:', 'wss:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a string is an http(s):// URL or a path on the dashboard's
+ * own server
+ */
+function isHttpUrl(value: string): boolean {
+  if (value.startsWith('/')) return true;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Server URL inputs and the transports that use them. `auto` skips empty URLs.
+ */
+const URL_FIELDS: Array<{
+  key: 'url' | 'sseUrl' | 'pollUrl' | 'mqttUrl';
+  label: string;
+  placeholder: string;
+  transports: RealtimeTransportKind[];
+  isValid: (value: string) => boolean;
+}> = [
+  { key: 'url', label: 'WebSocket URL', placeholder: 'ws://localhost:8787', transports: ['websocket', 'auto'], isValid: isWebSocketUrl },
+  { key: 'sseUrl', label: 'SSE URL', placeholder: 'http://localhost:8787/events', transports: ['sse', 'auto'], isValid: isHttpUrl },
+  { key: 'pollUrl', label: 'Long-polling URL', placeholder: 'http://localhost:8787/poll', transports: ['longpoll', 'auto'], isValid: isHttpUrl },
+  { key: 'mqttUrl', label: 'MQTT broker URL', placeholder: 'ws://localhost:8788/mqtt', transports: ['mqtt'], isValid: isWebSocketUrl },
+];
+
+/**
+ * Splits a comma-separated list of MQTT topic filters
+ */
+function parseTopics(value: string): string[] {
+  return value.split(',').map(topic => topic.trim()).filter(topic => topic !== '');
+}
+
+/**
+ * Checks the URLs the selected transport uses
+ */
+function isRealtimeSettingsValid(settings: RealtimeSettings): boolean {
+  if (settings.transport === 'simulator') return true;
+  if (settings.transport === 'mqtt' && (settings.mqttTopics.length === 0 || !settings.mqttTopics.every(isValidTopicFilter))) {
+    return false;
+  }
+  const fields = URL_FIELDS.filter(field => field.transports.includes(settings.transport));
+  if (settings.transport === 'auto') {
+    const filled = fields.filter(field => settings[field.key] !== '');
+    return filled.length > 0 && filled.every(field => field.isValid(settings[field.key]));
+  }
+  return fields.every(field => field.isValid(settings[field.key]));
+}
+
+export default function SettingsPage() {
+  const [profiles, setProfiles] = useState<ValidationProfile[]>([...BUILT_IN_VALIDATION_PROFILES]);
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_VALIDATION_PROFILES[0].id);
+  const [activeId, setActiveId] = useState<string>(BUILT_IN_VALIDATION_PROFILES[0].id);
+  const [isDirty, setIsDirty] = useState(false);
+  // Bumped whenever profiles are replaced wholesale so the inputs re-read their values
+  const [formRevision, setFormRevision] = useState(0);
+  const [timeZones, setTimeZones] = useState<SiteTimeZoneConfig>(DEFAULT_SITE_TIME_ZONES);
+  const [newDeviceId, setNewDeviceId] = useState('');
+  const [newDeviceZone, setNewDeviceZone] = useState('');
+  const [timeZonesDirty, setTimeZonesDirty] = useState(false);
+  const [realtime, setRealtime] = useState<RealtimeSettings>(DEFAULT_REALTIME_SETTINGS);
+  const [realtimeDirty, setRealtimeDirty] = useState(false);
+  // Edited as text so a half-typed list keeps its commas
+  const [mqttTopicsText, setMqttTopicsText] = useState(DEFAULT_REALTIME_SETTINGS.mqttTopics.join(', '));
+  const connectionStatus = useConnectionStatus();
+
+  // Profiles and site zones live in localStorage, so load them after mount
+  useEffect(() => {
+    const savedActiveId = getActiveProfileId();
+    setProfiles(loadValidationProfiles());
+    setActiveId(savedActiveId);
+    setSelectedId(savedActiveId);
+    setFormRevision(revision => revision + 1);
+    setTimeZones(loadSiteTimeZones());
+    const savedRealtime = loadRealtimeSettings();
+    setRealtime(savedRealtime);
+    setMqttTopicsText(savedRealtime.mqttTopics.join(', '));
+  }, []);
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedId) ?? profiles[0];
+
+  const updateSelectedProfile = (changes: Partial<ValidationProfile>) => {
+    setProfiles(prev => prev.map(profile =>
+      profile.id === selectedProfile.id ? { ...profile, ...changes } : profile
+    ));
+    setIsDirty(true);
+  };
+
+  const updateRule = (field: ValidationField, key: keyof FieldValidationRule, value: string) => {
+    const numValue = Number(value);
+    if (value === '' || isNaN(numValue)) return;
+
+    updateSelectedProfile({
+      rules: {
+        ...selectedProfile.rules,
+        [field]: { ...selectedProfile.rules[field], [key]: numValue },
+      },
+    });
+  };
+
+  const handleNewProfile = () => {
+    const newProfile: ValidationProfile = {
+      ...selectedProfile,
+      id: `custom-${Date.now()}`,
+      name: `${selectedProfile.name} (copy)`,
+      builtIn: false,
+    };
+    setProfiles(prev => [...prev, newProfile]);
+    setSelectedId(newProfile.id);
+    setIsDirty(true);
+  };
+
+  const handleDeleteProfile = () => {
+    if (selectedProfile.builtIn) return;
+    const remaining = profiles.filter(profile => profile.id !== selectedProfile.id);
+    setProfiles(remaining);
+    setSelectedId(remaining[0].id);
+    if (activeId === selectedProfile.id) {
+      setActiveId(remaining[0].id);
+      setActiveProfileId(remaining[0].id);
+    }
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    saveValidationProfiles(profiles);
+    setIsDirty(false);
+  };
+
+  const handleReset = () => {
+    resetValidationProfiles();
+    const builtIns = [...BUILT_IN_VALIDATION_PROFILES];
+    setProfiles(builtIns);
+    if (!builtIns.some(profile => profile.id === activeId)) {
+      setActiveId(builtIns[0].id);
+      setActiveProfileId(builtIns[0].id);
+    }
+    setSelectedId(builtIns[0].id);
+    setFormRevision(revision => revision + 1);
+    setIsDirty(false);
+  };
+
+  const handleActivate = () => {
+    setActiveProfileId(selectedProfile.id);
+    setActiveId(selectedProfile.id);
+  };
+
+  const updateTimeZones = (changes: Partial<SiteTimeZoneConfig>) => {
+    setTimeZones(prev => ({ ...prev, ...changes }));
+    setTimeZonesDirty(true);
+  };
+
+  const handleAddDeviceZone = () => {
+    const deviceId = newDeviceId.trim();
+    const zone = newDeviceZone.trim();
+    if (!deviceId || !isValidTimeZone(zone)) return;
+    updateTimeZones({ devices: { ...timeZones.devices, [deviceId]: zone } });
+    setNewDeviceId('');
+    setNewDeviceZone('');
+  };
+
+  const handleRemoveDeviceZone = (deviceId: string) => {
+    const devices = { ...timeZones.devices };
+    delete devices[deviceId];
+    updateTimeZones({ devices });
+  };
+
+  const timeZonesValid = isValidTimeZone(timeZones.defaultTimeZone) &&
+    Object.values(timeZones.devices).every(isValidTimeZone);
+
+  const handleSaveTimeZones = () => {
+    if (!timeZonesValid) return;
+    saveSiteTimeZones(timeZones);
+    setTimeZonesDirty(false);
+  };
+
+  const updateRealtime = (changes: Partial<RealtimeSettings>) => {
+    setRealtime(prev => ({ ...prev, ...changes }));
+    setRealtimeDirty(true);
+  };
+
+  const realtimeValid = isRealtimeSettingsValid(realtime);
+  const urlFields = URL_FIELDS.filter(field => field.transports.includes(realtime.transport));
+
+  const handleSaveRealtime = () => {
+    if (!realtimeValid) return;
+    saveRealtimeSettings(realtime);
+    // Reconnects when the source changed
+    getWebSocketService().updateConfig(realtime);
+    setRealtimeDirty(false);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Validation profiles, time zones and the live data source
+        </p>
+      </div>
+
+      <DashboardGrid className="grid-cols-1 lg:grid-cols-3 gap-6">
+        <DashboardCard
+          title="Validation Profiles"
+          description="The active profile is used when parsing CSV files"
+          className="col-span-1"
+        >
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => setSelectedId(profile.id)}
+                className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                  profile.id === selectedProfile.id ? 'border-primary bg-muted/50' : 'hover:bg-muted/30'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{profile.name}</span>
+                  {profile.id === activeId && <Badge variant="secondary">Active</Badge>}
+                </div>
+                {profile.description && (
+                  <p className="text-xs text-muted-foreground mt-1">{profile.description}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <Button size="sm" variant="outline" onClick={handleNewProfile}>
+              Duplicate
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleReset}>
+              Reset to Built-ins
+            </Button>
+          </div>
+        </DashboardCard>
+
+        <DashboardCard
+          title={selectedProfile.name}
+          description="Values outside nominal ± tolerance are warnings; values outside the hard limits are errors"
+          className="col-span-1 lg:col-span-2"
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Name</span>
+                <input
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                  value={selectedProfile.name}
+                  onChange={event => updateSelectedProfile({ name: event.target.value })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Description</span>
+                <input
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                  value={selectedProfile.description ?? ''}
+                  onChange={event => updateSelectedProfile({ description: event.target.value })}
+                />
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Field</th>
+                    {RULE_KEYS.map(({ key, label }) => (
+                      <th key={key} className="py-2 pr-4 font-medium">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(VALIDATION_FIELDS) as ValidationField[]).map(field => (
+                    <tr key={field} className="border-t">
+                      <td className="py-2 pr-4">
+                        {VALIDATION_FIELDS[field].label}
+                        <span className="text-muted-foreground"> ({VALIDATION_FIELDS[field].unit})</span>
+                      </td>
+                      {RULE_KEYS.map(({ key }) => (
+                        <td key={key} className="py-2 pr-4">
+                          <input
+                            type="number"
+                            step="any"
+                            className="w-24 rounded-md border bg-background px-2 py-1"
+                            defaultValue={selectedProfile.rules[field][key]}
+                            key={`${formRevision}-${selectedProfile.id}-${field}-${key}`}
+                            onChange={event => updateRule(field, key, event.target.value)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSave} disabled={!isDirty}>
+                Save Profiles
+              </Button>
+              <Button variant="secondary" onClick={handleActivate} disabled={selectedProfile.id === activeId}>
+                Use for Parsing
+              </Button>
+              <Button variant="outline" onClick={handleDeleteProfile} disabled={selectedProfile.builtIn}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        </DashboardCard>
+
+        <DashboardCard
+          title="Site Time Zones"
+          description="Exports record the wall-clock time at the site; timestamps and daily totals use these IANA zones"
+          className="col-span-1 lg:col-span-3"
+        >
+          <div className="space-y-4">
+            <label className="text-sm space-y-1 block max-w-sm">
+              <span className="text-muted-foreground">Default zone</span>
+              <input
+                className={`w-full rounded-md border bg-background px-3 py-2 ${
+                  isValidTimeZone(timeZones.defaultTimeZone) ? '' : 'border-red-500'
+                }`}
+                value={timeZones.defaultTimeZone}
+                placeholder="e.g. America/Chicago"
+                onChange={event => updateTimeZones({ defaultTimeZone: event.target.value })}
+              />
+            </label>
+
+            {Object.keys(timeZones.devices).length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Device ID</th>
+                    <th className="py-2 pr-4 font-medium">Zone</th>
+                    <th className="py-2 pr-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(timeZones.devices).map(([deviceId, zone]) => (
+                    <tr key={deviceId} className="border-t">
+                      <td className="py-2 pr-4 font-mono">{deviceId}</td>
+                      <td className="py-2 pr-4">{zone}</td>
+                      <td className="py-2 pr-4 text-right">
+                        <Button size="sm" variant="outline" onClick={() => handleRemoveDeviceZone(deviceId)}>
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Device ID</span>
+                <input
+                  className="w-56 rounded-md border bg-background px-3 py-2"
+                  value={newDeviceId}
+                  placeholder="HINV-80F3DA61D0"
+                  onChange={event => setNewDeviceId(event.target.value)}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Zone</span>
+                <input
+                  className="w-56 rounded-md border bg-background px-3 py-2"
+                  value={newDeviceZone}
+                  placeholder="e.g. Europe/Berlin"
+                  onChange={event => setNewDeviceZone(event.target.value)}
+                />
+              </label>
+              <Button
+                variant="outline"
+                onClick={handleAddDeviceZone}
+                disabled={!newDeviceId.trim() || !isValidTimeZone(newDeviceZone.trim())}
+              >
+                Add Override
+              </Button>
+            </div>
+
+            <Button onClick={handleSaveTimeZones} disabled={!timeZonesDirty || !timeZonesValid}>
+              Save Time Zones
+            </Button>
+          </div>
+        </DashboardCard>
+
+        <DashboardCard
+          title="Live Data Source"
+          description="Where the dashboard's real-time data comes from"
+          className="col-span-1 lg:col-span-3"
+        >
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Transport</span>
+                <select
+                  className="block w-56 rounded-md border bg-background px-3 py-2"
+                  value={realtime.transport}
+                  onChange={event => updateRealtime({ transport: event.target.value as RealtimeSettings['transport'] })}
+                >
+                  {TRANSPORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              {realtime.transport !== 'simulator' && (
+                <>
+                  {urlFields.map(field => {
+                    const value = realtime[field.key];
+                    const invalid = realtime.transport === 'auto' ? value !== '' && !field.isValid(value) : !field.isValid(value);
+                    return (
+                      <label key={field.key} className="text-sm space-y-1">
+                        <span className="text-muted-foreground">{field.label}</span>
+                        <input
+                          className={`w-72 rounded-md border bg-background px-3 py-2 ${invalid ? 'border-red-500' : ''}`}
+                          value={value}
+                          placeholder={field.placeholder}
+                          onChange={event => updateRealtime({ [field.key]: event.target.value })}
+                        />
+                      </label>
+                    );
+                  })}
+                  {realtime.transport === 'mqtt' && (
+                    <>
+                      <label className="text-sm space-y-1">
+                        <span className="text-muted-foreground">Topics (comma-separated)</span>
+                        <input
+                          className={`w-72 rounded-md border bg-background px-3 py-2 ${
+                            realtime.mqttTopics.length > 0 && realtime.mqttTopics.every(isValidTopicFilter) ? '' : 'border-red-500'
+                          }`}
+                          value={mqttTopicsText}
+                          placeholder="carrygreen/+/telemetry"
+                          onChange={event => {
+                            setMqttTopicsText(event.target.value);
+                            updateRealtime({ mqttTopics: parseTopics(event.target.value) });
+                          }}
+                        />
+                      </label>
+                      <label className="text-sm space-y-1">
+                        <span className="text-muted-foreground">User name</span>
+                        <input
+                          className="w-40 rounded-md border bg-background px-3 py-2"
+                          value={realtime.mqttUsername ?? ''}
+                          placeholder="Optional"
+                          onChange={event => updateRealtime({ mqttUsername: event.target.value || undefined })}
+                        />
+                      </label>
+                    </>
+                  )}
+                  <label className="text-sm space-y-1">
+                    <span className="text-muted-foreground">{realtime.transport === 'mqtt' ? 'Password' : 'Auth token'}</span>
+                    <input
+                      type="password"
+                      className="w-56 rounded-md border bg-background px-3 py-2"
+                      value={realtime.authToken ?? ''}
+                      placeholder="Optional"
+                      onChange={event => updateRealtime({ authToken: event.target.value || undefined })}
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant={connectionStatus.isConnected ? 'default' : 'outline'}>
+                {connectionStatus.isConnected ? 'Connected' : connectionStatus.isConnecting ? 'Connecting' : 'Disconnected'}
+              </Badge>
+              {connectionStatus.isConnected && connectionStatus.activeTransport && (
+                <span className="text-muted-foreground">
+                  via {connectionStatus.activeTransport === 'replay'
+                    ? 'CSV replay'
+                    : TRANSPORT_OPTIONS.find(option => option.value === connectionStatus.activeTransport)?.label}
+                </span>
+              )}
+              {connectionStatus.connectionError && (
+                <span className="text-red-600">{connectionStatus.connectionError}</span>
+              )}
+            </div>
+
+            <Button onClick={handleSaveRealtime} disabled={!realtimeDirty || !realtimeValid}>
+              Save and Reconnect
+            </Button>
+          </div>
+        </DashboardCard>
+      </DashboardGrid>
+    </DashboardLayout>
+  );
+}
@@ -1,26 +1,80 @@
 'use client';
 
-import { useState } from 'react';
-import { parseCSV, formatParseErrors } from '@/lib/csv';
-import { ParseResult } from '@/types';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  parseCSV,
+  parseCSVInWorker,
+  isParseAbortError,
+  formatParseErrors,
+  loadValidationProfiles,
+  getActiveProfileId,
+  DEFAULT_VALIDATION_PROFILE,
+  DEFAULT_SITE_TIME_ZONES,
+  loadSiteTimeZones,
+} from '@/lib/csv';
+import { ParseResult, ParseProgress, ParseErrorSeverity, SiteTimeZoneConfig, ValidationProfile } from '@/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { KPICards } from '@/components/dashboard/kpi-cards';
+import { BatteryGauge } from '@/components/dashboard/battery-gauge';
+import { DataQualityReportCard } from '@/components/dashboard/data-quality-report';
+import { DatasetStatisticsCard } from '@/components/dashboard/dataset-statistics';
+import { useReplay } from '@/context/realtime-data-context';
 
 export default function TestParserPage() {
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [severityFilter, setSeverityFilter] = useState<ParseErrorSeverity | 'all'>('all');
+  const [profiles, setProfiles] = useState<ValidationProfile[]>([DEFAULT_VALIDATION_PROFILE]);
+  const [profileId, setProfileId] = useState(DEFAULT_VALIDATION_PROFILE.id);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const [timeZones, setTimeZones] = useState<SiteTimeZoneConfig>(DEFAULT_SITE_TIME_ZONES);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const router = useRouter();
+  const replay = useReplay();
+
+  // Profiles and site zones are stored in localStorage (edited on the Settings page)
+  useEffect(() => {
+    setProfiles(loadValidationProfiles());
+    setProfileId(getActiveProfileId());
+    setTimeZones(loadSiteTimeZones());
+  }, []);
+
+  const profile = profiles.find(p => p.id === profileId) ?? DEFAULT_VALIDATION_PROFILE;
+
+  const filteredErrors = parseResult
+    ? parseResult.errors.filter(error => severityFilter === 'all' || error.severity === severityFilter)
+    : [];
+  const countBySeverity = (severity: ParseErrorSeverity) =>
+    parseResult ? parseResult.errors.filter(error => error.severity === severity).length : 0;
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    setWasCancelled(false);
+    setProgress(null);
     try {
-      const content = await file.text();
-      const result = await parseCSV(content);
+      // Large exports are streamed through a Web Worker so the page stays responsive
+      const result = await parseCSVInWorker(file, {
+        profile,
+        timeZones,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
       setParseResult(result);
     } catch (error) {
+      if (isParseAbortError(error)) {
+        setWasCancelled(true);
+        return;
+      }
       console.error('Error parsing CSV:', error);
       setParseResult({
         data: [],
@@ -30,15 +84,30 @@ export default function TestParserPage() {
           value: file.name,
           message: 'Failed to parse file',
           type: 'format',
+          severity: 'error',
         }],
         totalRows: 0,
         successfulRows: 0,
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      // Allow the same file to be selected again
+      event.target.value = '';
     }
   };
 
+  const cancelParsing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Plays the parsed records through the live pipeline and shows them on the dashboard
+  const replayOnDashboard = () => {
+    if (!parseResult) return;
+    replay.start(parseResult);
+    router.push('/');
+  };
+
   const loadSampleData = async () => {
     setIsLoading(true);
     try {
@@ -49,7 +118,7 @@ ID,Date,Time,Name,Blackout,Total kWh,Voltage,Current,Power W,Daily Wh,Monthly Wd
 HINV-80F3DA61D0,2025-09-28,21:05,TwinklePower,-,1.85,0,0,0,0,774.77,387.38,2.32,25.9,0,27,98,208.35,0,60,206.63,0,60,0x03
 ,,21:06,,-,,0,0,0,,,,,25.9,0,27,98,208.09,0,60,206.63,0,60,0x03`;
 
-      const result = await parseCSV(sampleCSV);
+      const result = await parseCSV(sampleCSV, { profile, timeZones });
       setParseResult(result);
     } catch (error) {
       console.error('Error parsing sample CSV:', error);
@@ -69,6 +138,17 @@ HINV-80F3DA61D0,2025-09-28,21:05,TwinklePower,-,1.85,0,0,0,0,774.77,387.38,2.32,
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex gap-4">
+            <select
+              value={profile.id}
+              onChange={event => setProfileId(event.target.value)}
+              disabled={isLoading}
+              className="rounded-md border bg-background px-3 py-2 text-sm"
+              aria-label="Validation profile"
+            >
+              {profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
             <Button onClick={loadSampleData} disabled={isLoading}>
               {isLoading ? 'Loading...' : 'Load Sample Data'}
             </Button>
@@ -83,9 +163,33 @@ HINV-80F3DA61D0,2025-09-28,21:05,TwinklePower,-,1.85,0,0,0,0,774.77,387.38,2.32,
             </div>
           </div>
 
+          {isLoading && progress && (
+            <div className="space-y-2">
+              <Progress
+                value={progress.totalBytes ? (progress.bytesRead / progress.totalBytes) * 100 : 0}
+              />
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {progress.rowsProcessed.toLocaleString()} rows
+                  {' · '}{(progress.bytesRead / 1024).toFixed(0)} / {((progress.totalBytes ?? 0) / 1024).toFixed(0)} KB
+                  {' · '}{progress.errorCount} errors, {progress.warningCount} warnings
+                </span>
+                <Button size="sm" variant="outline" onClick={cancelParsing}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {wasCancelled && (
+            <Alert>
+              <AlertDescription>Parsing was cancelled</AlertDescription>
+            </Alert>
+          )}
+
           {parseResult && (
             <div className="space-y-4">
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-2xl font-bold text-primary">{parseResult.totalRows}</div>
@@ -100,10 +204,16 @@ HINV-80F3DA61D0,2025-09-28,21:05,TwinklePower,-,1.85,0,0,0,0,774.77,387.38,2.32,
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
-                    <div className="text-2xl font-bold text-red-600">{parseResult.errors.length}</div>
+                    <div className="text-2xl font-bold text-red-600">{countBySeverity('error')}</div>
                     <p className="text-xs text-muted-foreground">Errors</p>
                   </CardContent>
                 </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-2xl font-bold text-orange-500">{countBySeverity('warning')}</div>
+                    <p className="text-xs text-muted-foreground">Warnings</p>
+                  </CardContent>
+                </Card>
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-2xl font-bold text-blue-600">
@@ -115,15 +225,58 @@ HINV-80F3DA61D0,2025-09-28,21:05,TwinklePower,-,1.85,0,0,0,0,774.77,387.38,2.32,
               </div>
 
               {parseResult.errors.length > 0 && (
+                <div className="flex gap-2">
+                  {(['all', 'error', 'warning', 'info'] as const).map(severity => (
+                    <Button
+                      key={severity}
+                      size="sm"
+                      variant={severityFilter === severity ? 'default' : 'outline'}
+                      onClick={() => setSeverityFilter(severity)}
+                    >
+                      {severity === 'all' ? 'All' : severity.charAt(0).toUpperCase() + severity.slice(1) + 's'}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {filteredErrors.length > 0 && (
                 <Alert>
                   <AlertDescription>
                     <div className="whitespace-pre-wrap text-sm">
-                      {formatParseErrors(parseResult.errors.slice(0, 10))}
+                      {formatParseErrors(filteredErrors.slice(0, 10))}
                     </div>
                   </AlertDescription>
                 </Alert>
               )}
 
+              {parseResult.data.length > 0 && (
+                <div className="flex items-center gap-4">
+                  <Button onClick={replayOnDashboard}>Replay on Dashboard</Button>
+                  <p className="text-sm text-muted-foreground">
+                    Streams the records in timestamp order, as if they were arriving live
+                  </p>
+                </div>
+              )}
+
+              {parseResult.data.length > 0 && (
+                <DataQualityReportCard result={parseResult} />
+              )}
+
+              {parseResult.data.length > 0 && (
+                <DatasetStatisticsCard records={parseResult.data} />
+              )}
+
+              {parseResult.data.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold">Last Record Preview</h3>
+                  <KPICards record={parseResult.data[parseResult.data.length - 1]} />
+                  <BatteryGauge
+                    record={parseResult.data[parseResult.data.length - 1]}
+                    className="max-w-md"
+                  />
+                </div>
+              )}
+
               {parseResult.data.length > 0 && (
                 <Card>
                   <CardHeader>
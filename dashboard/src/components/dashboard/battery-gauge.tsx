@@ -1,16 +1,20 @@
 "use client"
 
 import { useBatteryData } from '@/context/realtime-data-context'
+import { InverterRecord } from '@/types/inverter-data'
 import { DashboardCard } from '@/components/layout/dashboard-layout'
 import { Battery, Zap, Thermometer } from 'lucide-react'
 import { useMemo } from 'react'
 
 interface BatteryGaugeProps {
   className?: string
+  /** Record to display instead of the live feed (e.g. an imported CSV row) */
+  record?: InverterRecord | null
 }
 
-export function BatteryGauge({ className }: BatteryGaugeProps) {
-  const batteryData = useBatteryData()
+export function BatteryGauge({ className, record }: BatteryGaugeProps) {
+  const liveBatteryData = useBatteryData()
+  const batteryData = record !== undefined ? record?.battery ?? null : liveBatteryData
 
   const batteryMetrics = useMemo(() => {
     if (!batteryData) {
@@ -24,7 +28,8 @@ export function BatteryGauge({ className }: BatteryGaugeProps) {
       }
     }
 
-    const soc = batteryData.Battery_SOC
+    const soc = batteryData.soc ?? 0
+    const current = batteryData.current ?? 0
     let status: 'charging' | 'discharging' | 'full' | 'low' | 'critical'
     let color: string
 
@@ -32,8 +37,8 @@ export function BatteryGauge({ className }: BatteryGaugeProps) {
       status = 'full'
       color = 'text-green-500'
     } else if (soc >= 40) {
-      status = batteryData.Battery_Current > 0 ? 'charging' : 'discharging'
-      color = batteryData.Battery_Current > 0 ? 'text-blue-500' : 'text-yellow-500'
+      status = current > 0 ? 'charging' : 'discharging'
+      color = current > 0 ? 'text-blue-500' : 'text-yellow-500'
     } else if (soc >= 20) {
       status = 'low'
       color = 'text-orange-500'
@@ -43,10 +48,10 @@ export function BatteryGauge({ className }: BatteryGaugeProps) {
     }
 
     return {
-      soc: batteryData.Battery_SOC,
-      voltage: batteryData.Battery_Voltage,
-      current: batteryData.Battery_Current,
-      temperature: batteryData.Battery_Temp,
+      soc,
+      voltage: batteryData.voltage ?? 0,
+      current,
+      temperature: batteryData.temperature ?? 0,
       status,
       color
     }
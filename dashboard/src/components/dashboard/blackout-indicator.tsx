@@ -0,0 +1,28 @@
+"use client"
+
+import { useBlackoutStatus } from '@/context/realtime-data-context'
+import { formatBlackout } from '@/lib/csv/transformations'
+
+export function BlackoutIndicator() {
+  const blackout = useBlackoutStatus()
+
+  const isReported = blackout?.reported && blackout.ratio !== null
+  const ratio = blackout?.ratio ?? 0
+
+  let color = 'text-muted-foreground'
+  if (isReported) {
+    if (ratio === 0) color = 'text-green-600'
+    else if (ratio < 0.25) color = 'text-yellow-600'
+    else if (ratio < 0.75) color = 'text-orange-600'
+    else color = 'text-red-600'
+  }
+
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm">Blackout</span>
+      <span className={`text-sm font-medium ${color}`}>
+        {isReported ? formatBlackout(blackout) : 'Not reported'}
+      </span>
+    </div>
+  )
+}
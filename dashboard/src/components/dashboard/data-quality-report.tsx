@@ -0,0 +1,143 @@
+"use client"
+
+import { useMemo } from 'react'
+import { ParseResult } from '@/types'
+import { analyzeDataQuality, formatDataQualityReport, DataQualityReport } from '@/lib/csv/quality'
+import { useTimeDisplay } from '@/context/time-display-context'
+import { downloadFile } from '@/lib/download'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+
+interface DataQualityReportCardProps {
+  result: ParseResult
+  /** Gaps longer than this many nominal intervals are listed */
+  gapThreshold?: number
+  /** Gaps shown per device; the exported report lists all of them */
+  maxGapsShown?: number
+}
+
+/**
+ * Formats minutes as e.g. `3h 45m`
+ */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`
+}
+
+/**
+ * Picks a badge colour for a completeness percentage
+ */
+function completenessClass(completeness: number): string {
+  if (completeness >= 95) return 'text-green-600'
+  if (completeness >= 80) return 'text-orange-500'
+  return 'text-red-600'
+}
+
+export function DataQualityReportCard({ result, gapThreshold, maxGapsShown = 5 }: DataQualityReportCardProps) {
+  const report = useMemo<DataQualityReport>(
+    () => analyzeDataQuality(result, { gapThreshold }),
+    [result, gapThreshold]
+  )
+  const { formatTime } = useTimeDisplay()
+
+  const fileStem = `data-quality-${report.generatedAt.slice(0, 10)}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Data Quality</CardTitle>
+            <CardDescription>
+              Sampling interval, gaps longer than {report.gapThreshold}× the interval, duplicate and
+              out-of-order timestamps per device
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadFile(formatDataQualityReport(report), `${fileStem}.txt`, 'text/plain')}
+            >
+              Download Report
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadFile(JSON.stringify(report, null, 2), `${fileStem}.json`, 'application/json')}
+            >
+              JSON
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="text-sm">
+          Overall completeness:{' '}
+          <span className={`font-semibold ${completenessClass(report.overallCompleteness)}`}>
+            {report.overallCompleteness.toFixed(1)}%
+          </span>
+          {report.recordsWithoutTimestamp > 0 && (
+            <span className="text-muted-foreground">
+              {' '}· {report.recordsWithoutTimestamp} records without a timestamp were skipped
+            </span>
+          )}
+        </div>
+
+        {report.devices.map(device => (
+          <div key={device.deviceId} className="space-y-2 border-t pt-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{device.deviceId}</span>
+              {device.name && <span className="text-sm text-muted-foreground">{device.name}</span>}
+              <Badge variant="outline">{device.timeZone}</Badge>
+              <Badge variant="secondary">
+                {device.nominalIntervalMinutes !== null ? `${device.nominalIntervalMinutes} min interval` : 'Single sample'}
+              </Badge>
+              <span className={`text-sm font-semibold ${completenessClass(device.completeness)}`}>
+                {device.completeness.toFixed(1)}% complete
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Records </span>
+                {device.records}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Gaps </span>
+                {device.gaps.length}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Duplicates </span>
+                {device.duplicates.length}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Out of order </span>
+                {device.outOfOrder.length}
+              </div>
+            </div>
+
+            {device.gaps.length > 0 && (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {[...device.gaps]
+                  .sort((a, b) => b.durationMinutes - a.durationMinutes)
+                  .slice(0, maxGapsShown)
+                  .map(gap => (
+                    <li key={gap.start}>
+                      {formatTime(new Date(gap.start), device.timeZone)} → {formatTime(new Date(gap.end), device.timeZone)}
+                      {' '}({formatDuration(gap.durationMinutes)}, ~{gap.missingSamples} samples)
+                    </li>
+                  ))}
+                {device.gaps.length > maxGapsShown && (
+                  <li>… and {device.gaps.length - maxGapsShown} more in the report</li>
+                )}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
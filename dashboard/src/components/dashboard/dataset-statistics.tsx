@@ -0,0 +1,159 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { InverterRecord } from '@/types'
+import { calculateStatistics, formatStatisticsReport, DistributionSummary, StatisticsSummary } from '@/lib/csv'
+import { useTimeDisplay } from '@/context/time-display-context'
+import { downloadFile } from '@/lib/download'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+interface DatasetStatisticsCardProps {
+  records: InverterRecord[]
+}
+
+/**
+ * Colours of the SOC bands, lowest band first
+ */
+const SOC_BAND_CLASSES = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500']
+
+/**
+ * Formats a number, `-` when unknown
+ */
+function formatValue(value: number | null, digits = 1): string {
+  return value === null ? '-' : value.toFixed(digits)
+}
+
+/**
+ * Formats a fraction as a percentage, `-` when unknown
+ */
+function formatShare(share: number | null): string {
+  return share === null ? '-' : `${(share * 100).toFixed(1)}%`
+}
+
+/**
+ * Formats the P5 / P50 / P95 of a distribution
+ */
+function formatPercentiles(distribution: DistributionSummary, digits = 1): string {
+  return [distribution.p5, distribution.p50, distribution.p95].map(value => formatValue(value, digits)).join(' / ')
+}
+
+export function DatasetStatisticsCard({ records }: DatasetStatisticsCardProps) {
+  const statistics = useMemo(() => calculateStatistics(records), [records])
+  const [deviceId, setDeviceId] = useState<string | null>(null)
+  const { formatTime } = useTimeDisplay()
+
+  if (!statistics) return null
+
+  const summary: StatisticsSummary = (deviceId && statistics.byDevice[deviceId]) || statistics
+  const { power, battery, dailyGeneration, availability } = summary
+  const peakTimeZone = power.peak
+    ? records.find(record => record.userRecord.id === power.peak?.deviceId)?.userRecord.timestamp.timeZone
+    : undefined
+  const fileStem = `statistics-${(statistics.dateRange.start ?? 'dataset').slice(0, 10)}`
+
+  const figures = [
+    {
+      label: 'Peak power',
+      value: power.peak ? `${power.peak.value.toFixed(0)} W` : '-',
+      detail: power.peak?.datetime ? formatTime(new Date(power.peak.datetime), peakTimeZone) : undefined,
+    },
+    { label: 'Power P5 / P50 / P95 (W)', value: formatPercentiles(power.distribution, 0), detail: `σ ${formatValue(power.distribution.stddev, 0)} W` },
+    { label: 'Energy', value: `${summary.energy.totalKWh.toFixed(2)} kWh`, detail: `${summary.energy.resets} counter resets` },
+    {
+      label: 'Daily generation',
+      value: `${formatValue(dailyGeneration.mean, 2)} kWh`,
+      detail: `${dailyGeneration.count} days, P50 ${formatValue(dailyGeneration.p50, 2)}, max ${formatValue(dailyGeneration.max, 2)}`,
+    },
+    { label: 'SOC P5 / P50 / P95 (%)', value: formatPercentiles(battery.soc, 0), detail: `σ ${formatValue(battery.soc.stddev)}%` },
+    { label: 'Battery temperature', value: `${formatValue(battery.temperature.mean)}°C`, detail: `P95 ${formatValue(battery.temperature.p95)}°C` },
+    { label: 'Grid online', value: formatShare(availability.grid) },
+    { label: 'Inverter online', value: formatShare(availability.inverter) },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Dataset Statistics</CardTitle>
+            <CardDescription>
+              Distributions, peak power, daily generation and time spent per SOC band and status code
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadFile(formatStatisticsReport(statistics), `${fileStem}.txt`, 'text/plain')}
+            >
+              Download Report
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadFile(JSON.stringify(statistics, null, 2), `${fileStem}.json`, 'application/json')}
+            >
+              JSON
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {statistics.devices.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant={deviceId === null ? 'default' : 'outline'} onClick={() => setDeviceId(null)}>
+              All devices
+            </Button>
+            {statistics.devices.map(id => (
+              <Button key={id} size="sm" variant={deviceId === id ? 'default' : 'outline'} onClick={() => setDeviceId(id)}>
+                {id}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {figures.map(figure => (
+            <div key={figure.label} className="p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">{figure.label}</div>
+              <div className="font-semibold">{figure.value}</div>
+              {figure.detail && <div className="text-xs text-muted-foreground">{figure.detail}</div>}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Time in SOC bands</div>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+            {battery.socBands.map((band, i) => (
+              <div
+                key={band.key}
+                className={SOC_BAND_CLASSES[i % SOC_BAND_CLASSES.length]}
+                style={{ width: `${band.share * 100}%` }}
+                title={`${band.key}: ${formatShare(band.share)}`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {battery.socBands.map(band => (
+              <span key={band.key}>{band.key} {formatShare(band.share)}</span>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Time per status code</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            {summary.statusCodes.map(code => (
+              <div key={code.key} className="flex justify-between">
+                <span className="font-mono">{code.key}</span>
+                <span className="text-muted-foreground">{formatShare(code.share)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,10 +4,17 @@ import { useCurrentData, useConnectionStatus } from '@/context/realtime-data-con
 import { DashboardCard } from '@/components/layout/dashboard-layout'
 import { Battery, Zap, Grid3X3, TrendingUp, Wifi, WifiOff } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
+import { InverterRecord } from '@/types/inverter-data'
 import { useMemo } from 'react'
 
-export function KPICards() {
-  const currentData = useCurrentData()
+interface KPICardsProps {
+  /** Record to display instead of the live feed (e.g. an imported CSV row) */
+  record?: InverterRecord | null
+}
+
+export function KPICards({ record }: KPICardsProps = {}) {
+  const liveData = useCurrentData()
+  const currentData = record !== undefined ? record : liveData
   const { isConnected, lastUpdate } = useConnectionStatus()
 
   const kpiData = useMemo(() => {
@@ -24,22 +31,22 @@ export function KPICards() {
 
     return {
       solarPower: {
-        value: (pv.PV_Power_W / 1000),
+        value: (pv.powerW ?? 0) / 1000,
         unit: 'kW',
         trend: 0 // TODO: Calculate trend from historical data
       },
       batterySOC: {
-        value: battery.Battery_SOC,
+        value: battery.soc ?? 0,
         unit: '%',
         trend: 0 // TODO: Calculate trend
       },
       gridVoltage: {
-        value: grid.Grid_Voltage,
+        value: grid.voltage ?? 0,
         unit: 'V',
         trend: 0 // TODO: Calculate trend
       },
       dailyEnergy: {
-        value: (pv.PV_Daily_Wh / 1000),
+        value: (pv.dailyWh ?? 0) / 1000,
         unit: 'kWh',
         trend: 0 // TODO: Calculate trend
       }
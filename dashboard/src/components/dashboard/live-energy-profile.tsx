@@ -0,0 +1,78 @@
+"use client"
+
+import { useCurrentData, useLiveAggregates, useReplay } from '@/context/realtime-data-context'
+import { formatPeriodKey } from '@/lib/csv'
+import { getRecordTimeZone } from '@/lib/record-adapters'
+import { getViewerTimeZone } from '@/lib/timezone'
+import { Sun } from 'lucide-react'
+
+/**
+ * Today's hourly PV power profile and recent daily energy totals, built from
+ * the live stream's running aggregates
+ */
+export function LiveEnergyProfile() {
+  const currentData = useCurrentData()
+  const hourly = useLiveAggregates('hour')
+  const daily = useLiveAggregates('day')
+  const { state: replay } = useReplay()
+
+  const timeZone = currentData ? getRecordTimeZone(currentData) : getViewerTimeZone()
+  // A replayed export's today is the day of its simulated clock
+  const today = formatPeriodKey(replay?.clock ?? new Date(), 'day', timeZone)
+  const todayHours = hourly.filter(bucket => bucket.period.startsWith(today))
+  const peakPower = Math.max(1, ...todayHours.map(bucket => bucket.values['pv.powerW'] ?? 0))
+  const recentDays = daily.slice(-7).reverse()
+
+  if (hourly.length === 0) {
+    return (
+      <div className="h-48 flex flex-col items-center justify-center text-muted-foreground">
+        <Sun className="h-10 w-10 mb-3" />
+        <p>Waiting for live data</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Hourly profile */}
+      <div>
+        <div className="text-sm font-medium mb-2">Today&apos;s PV power by hour</div>
+        <div className="flex items-end gap-1 h-32">
+          {todayHours.map(bucket => {
+            const power = bucket.values['pv.powerW'] ?? 0
+            return (
+              <div
+                key={bucket.period}
+                className="flex-1 bg-yellow-400 dark:bg-yellow-500 rounded-t"
+                style={{ height: `${(power / peakPower) * 100}%` }}
+                title={`${bucket.period.slice(-5)}: ${power.toFixed(0)} W average, ${bucket.count} samples`}
+              />
+            )
+          })}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          <span>{todayHours[0]?.period.slice(-5) ?? '--:--'}</span>
+          <span>peak {peakPower.toFixed(0)} W</span>
+          <span>{todayHours[todayHours.length - 1]?.period.slice(-5) ?? '--:--'}</span>
+        </div>
+      </div>
+
+      {/* Daily totals */}
+      <div>
+        <div className="text-sm font-medium mb-2">Daily energy</div>
+        <div className="space-y-1 text-sm">
+          {recentDays.map(bucket => (
+            <div key={bucket.period} className="flex justify-between">
+              <span className={bucket.period === today ? 'font-medium' : 'text-muted-foreground'}>
+                {bucket.period === today ? 'Today' : bucket.period}
+              </span>
+              <span className="font-mono">
+                {bucket.values.energy !== null ? `${bucket.values.energy.toFixed(2)} kWh` : '--'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useSystemStatus, useConnectionStatus } from '@/context/realtime-data-context'
+import {
+  getActiveStatusFlags,
+  getStatusFlagDefinitions,
+  StatusFlagDefinition,
+  StatusFlagSeverity
+} from '@/lib/csv/status-flags'
+import { BlackoutIndicator } from '@/components/dashboard/blackout-indicator'
+import { useMemo } from 'react'
+
+const severityColors: Record<StatusFlagSeverity, string> = {
+  info: 'text-green-600',
+  warning: 'text-orange-600',
+  error: 'text-red-600'
+}
+
+interface FlagRow extends StatusFlagDefinition {
+  isSet: boolean | null
+}
+
+export function SystemStatusPanel() {
+  const status = useSystemStatus()
+  const { isConnected } = useConnectionStatus()
+
+  const flagRows = useMemo<FlagRow[]>(() => {
+    const definitions = getStatusFlagDefinitions()
+    if (!status) {
+      return definitions.map(definition => ({ ...definition, isSet: null }))
+    }
+
+    const activeFlags = getActiveStatusFlags(status, definitions)
+    const activeKeys = new Set(activeFlags.map(flag => flag.key))
+
+    return [
+      ...definitions.map(definition => ({ ...definition, isSet: activeKeys.has(definition.key) })),
+      ...activeFlags
+        .filter(flag => !flag.known)
+        .map(flag => ({ ...flag, isSet: true }))
+    ]
+  }, [status])
+
+  return (
+    <div className="space-y-4">
+      {flagRows.map(flag => (
+        <div key={flag.key} className="flex items-center justify-between">
+          <span className="text-sm">{flag.label}</span>
+          <span
+            className={`text-sm font-medium ${
+              flag.isSet ? severityColors[flag.severity] : 'text-muted-foreground'
+            }`}
+          >
+            {flag.isSet === null ? 'Unknown' : flag.isSet ? 'Yes' : 'No'}
+          </span>
+        </div>
+      ))}
+      <BlackoutIndicator />
+      <div className="flex items-center justify-between">
+        <span className="text-sm">Data Logger</span>
+        <span className={`text-sm font-medium ${isConnected ? 'text-blue-600' : 'text-muted-foreground'}`}>
+          {isConnected ? 'Recording' : 'Offline'}
+        </span>
+      </div>
+      {status && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Status code</span>
+          <span className="font-mono">{status.hex}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,22 +3,24 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Menu, Wifi, WifiOff, Battery, Zap } from "lucide-react"
-
-interface SystemStatus {
-  isOnline: boolean
-  batteryLevel: number
-  powerGeneration: number
-  lastUpdate: Date
-}
+import { Menu, Wifi, WifiOff, Battery, Zap, Clock, History } from "lucide-react"
+import { useCurrentData, useConnectionStatus, useReplay } from "@/context/realtime-data-context"
+import { useTimeDisplay } from "@/context/time-display-context"
+import { ReplayControls } from "./replay-controls"
 
 export function DashboardHeader() {
-  const [systemStatus] = useState<SystemStatus>({
-    isOnline: true,
-    batteryLevel: 85,
-    powerGeneration: 2.4,
-    lastUpdate: new Date()
-  })
+  const currentData = useCurrentData()
+  const { isConnected, lastUpdate } = useConnectionStatus()
+  const { state: replay } = useReplay()
+  const { mode, setMode, formatTime } = useTimeDisplay()
+  const siteTimeZone = currentData?.userRecord.timestamp.timeZone
+
+  const systemStatus = {
+    isOnline: isConnected,
+    batteryLevel: currentData?.battery.soc ?? null,
+    powerGeneration: currentData?.pv.powerW != null ? currentData.pv.powerW / 1000 : null,
+    lastUpdate
+  }
 
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
 
@@ -53,23 +55,35 @@ export function DashboardHeader() {
 
         {/* System Status Indicators */}
         <div className="flex items-center space-x-4">
-          {/* Connection Status */}
-          <div className="flex items-center space-x-2">
-            {systemStatus.isOnline ? (
-              <Wifi className="h-4 w-4 text-green-500" />
-            ) : (
-              <WifiOff className="h-4 w-4 text-red-500" />
-            )}
-            <span className="text-sm text-muted-foreground hidden sm:inline">
-              {systemStatus.isOnline ? "Online" : "Offline"}
-            </span>
-          </div>
+          {/* Connection Status, or the simulated clock while replaying a CSV export */}
+          {replay ? (
+            <div className="flex items-center space-x-2" title="Replaying a CSV export">
+              <History className="h-4 w-4 text-amber-600" />
+              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium uppercase text-amber-800 dark:bg-amber-900 dark:text-amber-100">
+                Replay
+              </span>
+              <span className="text-sm font-medium tabular-nums hidden sm:inline">
+                {formatTime(replay.clock, replay.timeZone, { dateStyle: "medium", timeStyle: "medium" })}
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              {systemStatus.isOnline ? (
+                <Wifi className="h-4 w-4 text-green-500" />
+              ) : (
+                <WifiOff className="h-4 w-4 text-red-500" />
+              )}
+              <span className="text-sm text-muted-foreground hidden sm:inline">
+                {systemStatus.isOnline ? "Online" : "Offline"}
+              </span>
+            </div>
+          )}
 
           {/* Battery Level */}
           <div className="flex items-center space-x-2">
             <Battery className="h-4 w-4 text-blue-500" />
             <span className="text-sm font-medium hidden sm:inline">
-              {systemStatus.batteryLevel}%
+              {systemStatus.batteryLevel !== null ? `${systemStatus.batteryLevel.toFixed(0)}%` : "--"}
             </span>
           </div>
 
@@ -77,14 +91,28 @@ export function DashboardHeader() {
           <div className="flex items-center space-x-2">
             <Zap className="h-4 w-4 text-yellow-500" />
             <span className="text-sm font-medium hidden sm:inline">
-              {systemStatus.powerGeneration}kW
+              {systemStatus.powerGeneration !== null ? `${systemStatus.powerGeneration.toFixed(1)}kW` : "--"}
             </span>
           </div>
 
           {/* Last Update */}
-          <div className="text-xs text-muted-foreground hidden md:block">
-            Updated: {systemStatus.lastUpdate.toLocaleTimeString()}
-          </div>
+          {systemStatus.lastUpdate && (
+            <div className="text-xs text-muted-foreground hidden md:block">
+              Updated: {formatTime(systemStatus.lastUpdate, siteTimeZone, { timeStyle: "medium" })}
+            </div>
+          )}
+
+          {/* Time Display */}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="hidden md:inline-flex text-xs"
+            onClick={() => setMode(mode === "site" ? "viewer" : "site")}
+            title="Switch between the site's time zone and yours"
+          >
+            <Clock className="h-4 w-4 mr-1" />
+            {mode === "site" ? "Site time" : "Your time"}
+          </Button>
 
           {/* User Avatar */}
           <Avatar className="h-8 w-8">
@@ -93,6 +121,8 @@ export function DashboardHeader() {
         </div>
       </div>
 
+      <ReplayControls />
+
       {/* Mobile menu overlay */}
       {isMobileMenuOpen && (
         <div className="lg:hidden">
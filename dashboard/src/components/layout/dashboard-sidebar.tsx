@@ -12,6 +12,7 @@ import {
   ChevronRight
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { useCurrentData } from "@/context/realtime-data-context"
 
 interface NavItem {
   title: string
@@ -51,6 +52,11 @@ const navItems: NavItem[] = [
 
 export function DashboardSidebar() {
   const [isCollapsed, setIsCollapsed] = useState(false)
+  const currentData = useCurrentData()
+
+  const solarActive = (currentData?.pv.powerW ?? 0) > 0
+  const gridState = currentData?.grid.state ?? 'unknown'
+  const batteryCurrent = currentData?.battery.current ?? null
 
   return (
     <>
@@ -110,15 +116,21 @@ export function DashboardSidebar() {
               <div className="space-y-1">
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Solar</span>
-                  <span className="text-green-600 font-medium">Active</span>
+                  <span className={cn("font-medium", solarActive ? "text-green-600" : "text-muted-foreground")}>
+                    {solarActive ? "Active" : "Idle"}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Grid</span>
-                  <span className="text-green-600 font-medium">Connected</span>
+                  <span className={cn("font-medium", gridState === "online" ? "text-green-600" : "text-red-600")}>
+                    {gridState === "online" ? "Connected" : gridState === "offline" ? "Offline" : "Unknown"}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Battery</span>
-                  <span className="text-blue-600 font-medium">Charging</span>
+                  <span className="text-blue-600 font-medium">
+                    {batteryCurrent === null ? "Unknown" : batteryCurrent > 0 ? "Charging" : batteryCurrent < 0 ? "Discharging" : "Idle"}
+                  </span>
                 </div>
               </div>
             </div>
@@ -0,0 +1,92 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Pause, Play, Repeat, X } from "lucide-react"
+import { useReplay } from "@/context/realtime-data-context"
+import { useTimeDisplay } from "@/context/time-display-context"
+import { REPLAY_SPEEDS, ReplaySpeed } from "@/services/transports"
+
+/**
+ * Step of the seek slider, in milliseconds
+ */
+const SEEK_STEP = 60 * 1000
+
+function speedLabel(speed: ReplaySpeed): string {
+  return speed === "max" ? "Max" : `${speed}×`
+}
+
+/**
+ * Playback controls shown under the header while a CSV export is replayed
+ */
+export function ReplayControls() {
+  const { state, stop, pause, resume, setSpeed, setLoop, seek } = useReplay()
+  const { formatTime } = useTimeDisplay()
+
+  if (!state) return null
+
+  const start = state.start.getTime()
+  const end = state.end.getTime()
+
+  return (
+    <div className="border-t bg-amber-50/80 dark:bg-amber-950/40">
+      <div className="container mx-auto flex flex-wrap items-center gap-3 px-4 py-2 text-sm">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={state.playing ? pause : resume}
+          title={state.playing ? "Pause" : state.ended ? "Play again" : "Play"}
+        >
+          {state.playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map(speed => (
+            <Button
+              key={speed}
+              size="sm"
+              variant={state.speed === speed ? "default" : "outline"}
+              className="h-8 px-2"
+              onClick={() => setSpeed(speed)}
+            >
+              {speedLabel(speed)}
+            </Button>
+          ))}
+        </div>
+
+        <Button
+          size="sm"
+          variant={state.loop ? "default" : "outline"}
+          className="h-8"
+          onClick={() => setLoop(!state.loop)}
+          title="Start over after the last record"
+        >
+          <Repeat className="h-4 w-4 mr-1" />
+          Loop
+        </Button>
+
+        <input
+          type="range"
+          min={start}
+          max={end}
+          step={SEEK_STEP}
+          value={state.clock.getTime()}
+          onChange={event => seek(new Date(Number(event.target.value)))}
+          disabled={end === start}
+          className="min-w-40 flex-1 accent-amber-600"
+          aria-label="Replay position"
+        />
+
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {formatTime(state.start, state.timeZone)} – {formatTime(state.end, state.timeZone)}
+          {" · "}{state.played.toLocaleString()} / {state.total.toLocaleString()} records
+        </span>
+
+        <Button size="sm" variant="ghost" className="h-8" onClick={stop} title="Back to live data">
+          <X className="h-4 w-4 mr-1" />
+          Exit replay
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,12 @@
 "use client"
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
-import { InverterRecord } from '@/types/inverter-data'
-import { WebSocketService, getWebSocketService } from '@/services/websocket-service'
+import { AggregatedData, InverterRecord, ParseResult } from '@/types/inverter-data'
+import { RealtimeTransportKind } from '@/types/realtime-protocol'
+import { OnlineAggregator, PeriodInterval } from '@/lib/csv'
+import { WebSocketService, ConnectionStatus, getWebSocketService } from '@/services/websocket-service'
+import { loadRealtimeSettings } from '@/services/realtime-settings'
+import { ReplayOptions, ReplaySpeed, ReplayState } from '@/services/transports'
 
 interface RealtimeDataContextType {
   // Current data
@@ -15,6 +19,7 @@ interface RealtimeDataContextType {
   connectionError: string | null
   lastUpdate: Date | null
   retryCount: number
+  activeTransport: RealtimeTransportKind | null
 
   // Controls
   connect: () => Promise<void>
@@ -25,8 +30,29 @@ interface RealtimeDataContextType {
   // Data methods
   getHistoricalData: (hoursBack?: number) => InverterRecord[]
   clearData: () => void
+
+  // Live aggregates (minute, hour and day buckets of the stream)
+  getAggregates: (interval: LiveAggregateInterval) => AggregatedData[]
+  aggregateVersion: number
+
+  // CSV replay (null state while showing live data)
+  replayState: ReplayState | null
+  startReplay: (result: ParseResult, options?: ReplayOptions) => Promise<void>
+  stopReplay: () => void
+  pauseReplay: () => void
+  resumeReplay: () => void
+  setReplaySpeed: (speed: ReplaySpeed) => void
+  setReplayLoop: (loop: boolean) => void
+  seekReplay: (time: Date) => void
 }
 
+/**
+ * Intervals the live stream is aggregated into
+ */
+export type LiveAggregateInterval = Extract<PeriodInterval, 'minute' | 'hour' | 'day'>
+
+const LIVE_AGGREGATE_INTERVALS: LiveAggregateInterval[] = ['minute', 'hour', 'day']
+
 const RealtimeDataContext = createContext<RealtimeDataContextType | undefined>(undefined)
 
 interface RealtimeDataProviderProps {
@@ -43,6 +69,7 @@ export function RealtimeDataProvider({
   const [webSocketService] = useState<WebSocketService>(() =>
     getWebSocketService({ updateInterval })
   )
+  const [aggregator] = useState(() => new OnlineAggregator({ intervals: LIVE_AGGREGATE_INTERVALS }))
 
   const [currentData, setCurrentData] = useState<InverterRecord | null>(null)
   const [historicalData, setHistoricalData] = useState<InverterRecord[]>([])
@@ -51,6 +78,9 @@ export function RealtimeDataProvider({
   const [connectionError, setConnectionError] = useState<string | null>(null)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [retryCount, setRetryCount] = useState(0)
+  const [activeTransport, setActiveTransport] = useState<RealtimeTransportKind | null>(null)
+  const [aggregateVersion, setAggregateVersion] = useState(0)
+  const [replayState, setReplayState] = useState<ReplayState | null>(() => webSocketService.getReplayState())
 
   useEffect(() => {
     // Setup event listeners
@@ -61,14 +91,17 @@ export function RealtimeDataProvider({
         // Keep only last 100 records for performance
         return newData.slice(-100)
       })
+      aggregator.add(data)
+      setAggregateVersion(version => version + 1)
       setLastUpdate(new Date())
     }
 
-    const handleConnectionStateChange = (status: any) => {
+    const handleConnectionStateChange = (status: ConnectionStatus) => {
       setIsConnected(status.connected)
       setConnectionError(status.error)
       setLastUpdate(status.lastUpdate)
       setRetryCount(status.retryCount)
+      setActiveTransport(status.transport)
       setIsConnecting(false)
     }
 
@@ -103,6 +136,18 @@ export function RealtimeDataProvider({
       console.error('Max retry attempts reached')
     }
 
+    // Also sent when a replay starts, stops or rewinds
+    const handleCacheCleared = () => {
+      setCurrentData(null)
+      setHistoricalData([])
+      aggregator.clear()
+      setAggregateVersion(version => version + 1)
+    }
+
+    const handleReplayStateChange = (state: ReplayState | null) => {
+      setReplayState(state)
+    }
+
     // Register event listeners
     webSocketService.on('data', handleData)
     webSocketService.on('connectionStateChange', handleConnectionStateChange)
@@ -111,6 +156,11 @@ export function RealtimeDataProvider({
     webSocketService.on('reconnecting', handleReconnecting)
     webSocketService.on('error', handleError)
     webSocketService.on('maxRetriesReached', handleMaxRetriesReached)
+    webSocketService.on('cacheCleared', handleCacheCleared)
+    webSocketService.on('replayStateChange', handleReplayStateChange)
+
+    // Use the live data source saved on the Settings page
+    webSocketService.updateConfig(loadRealtimeSettings())
 
     // Auto-connect if enabled
     if (autoConnect) {
@@ -134,8 +184,10 @@ export function RealtimeDataProvider({
       webSocketService.off('reconnecting', handleReconnecting)
       webSocketService.off('error', handleError)
       webSocketService.off('maxRetriesReached', handleMaxRetriesReached)
+      webSocketService.off('cacheCleared', handleCacheCleared)
+      webSocketService.off('replayStateChange', handleReplayStateChange)
     }
-  }, [webSocketService, autoConnect])
+  }, [webSocketService, aggregator, autoConnect])
 
   const connect = async (): Promise<void> => {
     if (isConnected || isConnecting) {
@@ -174,11 +226,14 @@ export function RealtimeDataProvider({
   }
 
   const clearData = (): void => {
-    setCurrentData(null)
-    setHistoricalData([])
+    // Local data is reset on the service's cacheCleared event
     webSocketService.clearCache()
   }
 
+  const getAggregates = (interval: LiveAggregateInterval): AggregatedData[] => {
+    return aggregator.getAggregates(interval)
+  }
+
   const contextValue: RealtimeDataContextType = {
     // Data
     currentData,
@@ -190,6 +245,7 @@ export function RealtimeDataProvider({
     connectionError,
     lastUpdate,
     retryCount,
+    activeTransport,
 
     // Controls
     connect,
@@ -199,7 +255,21 @@ export function RealtimeDataProvider({
 
     // Methods
     getHistoricalData: getHistoricalDataMethod,
-    clearData
+    clearData,
+
+    // Live aggregates
+    getAggregates,
+    aggregateVersion,
+
+    // CSV replay
+    replayState,
+    startReplay: (result, options) => webSocketService.startReplay(result, options),
+    stopReplay: () => webSocketService.stopReplay(),
+    pauseReplay: () => webSocketService.pauseReplay(),
+    resumeReplay: () => webSocketService.resumeReplay(),
+    setReplaySpeed: speed => webSocketService.setReplaySpeed(speed),
+    setReplayLoop: loop => webSocketService.setReplayLoop(loop),
+    seekReplay: time => webSocketService.seekReplay(time)
   }
 
   return (
@@ -224,8 +294,8 @@ export function useCurrentData(): InverterRecord | null {
 }
 
 export function useConnectionStatus() {
-  const { isConnected, isConnecting, connectionError, lastUpdate, retryCount } = useRealtimeData()
-  return { isConnected, isConnecting, connectionError, lastUpdate, retryCount }
+  const { isConnected, isConnecting, connectionError, lastUpdate, retryCount, activeTransport } = useRealtimeData()
+  return { isConnected, isConnecting, connectionError, lastUpdate, retryCount, activeTransport }
 }
 
 export function usePVData() {
@@ -243,7 +313,41 @@ export function useGridData() {
   return currentData?.grid || null
 }
 
+export function useBlackoutStatus() {
+  const { currentData } = useRealtimeData()
+  return currentData?.userRecord.blackout || null
+}
+
 export function useSystemStatus() {
   const { currentData } = useRealtimeData()
-  return currentData?.system || null
+  return currentData?.status || null
+}
+
+export function useLiveAggregates(interval: LiveAggregateInterval): AggregatedData[] {
+  // The context value changes with every record, so callers re-render and re-read the buckets
+  const { getAggregates } = useRealtimeData()
+  return getAggregates(interval)
+}
+
+export function useReplay() {
+  const {
+    replayState,
+    startReplay,
+    stopReplay,
+    pauseReplay,
+    resumeReplay,
+    setReplaySpeed,
+    setReplayLoop,
+    seekReplay
+  } = useRealtimeData()
+  return {
+    state: replayState,
+    start: startReplay,
+    stop: stopReplay,
+    pause: pauseReplay,
+    resume: resumeReplay,
+    setSpeed: setReplaySpeed,
+    setLoop: setReplayLoop,
+    seek: seekReplay
+  }
 }
\ No newline at end of file
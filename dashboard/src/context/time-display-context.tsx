@@ -0,0 +1,72 @@
+"use client"
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { TimeDisplayMode } from '@/types'
+import { formatInTimeZone, getViewerTimeZone } from '@/lib/timezone'
+import { getTimeDisplayMode, setTimeDisplayMode } from '@/lib/csv/sites'
+
+interface TimeDisplayContextType {
+  // Whether times are shown in the site's zone or the viewer's
+  mode: TimeDisplayMode
+  setMode: (mode: TimeDisplayMode) => void
+  viewerTimeZone: string
+
+  // Formatting
+  resolveTimeZone: (siteTimeZone?: string) => string
+  formatTime: (date: Date, siteTimeZone?: string, options?: Intl.DateTimeFormatOptions) => string
+}
+
+const TimeDisplayContext = createContext<TimeDisplayContextType | undefined>(undefined)
+
+interface TimeDisplayProviderProps {
+  children: ReactNode
+}
+
+export function TimeDisplayProvider({ children }: TimeDisplayProviderProps) {
+  const [mode, setModeState] = useState<TimeDisplayMode>('site')
+  const [viewerTimeZone, setViewerTimeZone] = useState('UTC')
+
+  useEffect(() => {
+    // localStorage and the viewer's zone are only known in the browser
+    setModeState(getTimeDisplayMode())
+    setViewerTimeZone(getViewerTimeZone())
+  }, [])
+
+  const setMode = useCallback((next: TimeDisplayMode) => {
+    setModeState(next)
+    setTimeDisplayMode(next)
+  }, [])
+
+  const resolveTimeZone = useCallback(
+    (siteTimeZone?: string) => (mode === 'site' && siteTimeZone ? siteTimeZone : viewerTimeZone),
+    [mode, viewerTimeZone]
+  )
+
+  const formatTime = useCallback(
+    (date: Date, siteTimeZone?: string, options?: Intl.DateTimeFormatOptions) =>
+      formatInTimeZone(date, resolveTimeZone(siteTimeZone), options),
+    [resolveTimeZone]
+  )
+
+  const contextValue: TimeDisplayContextType = {
+    mode,
+    setMode,
+    viewerTimeZone,
+    resolveTimeZone,
+    formatTime
+  }
+
+  return (
+    <TimeDisplayContext.Provider value={contextValue}>
+      {children}
+    </TimeDisplayContext.Provider>
+  )
+}
+
+export function useTimeDisplay(): TimeDisplayContextType {
+  const context = useContext(TimeDisplayContext)
+  if (context === undefined) {
+    throw new Error('useTimeDisplay must be used within a TimeDisplayProvider')
+  }
+  return context
+}
@@ -0,0 +1,329 @@
+/**
+ * Energy accounting from cumulative counters
+ *
+ * The export's energy columns are running counters, not per-row energy:
+ * `Daily Wh` restarts every day, `Monthly Wd` every month, `Yearly Wm` every
+ * year, and the kWh totals only grow (until the register rolls over). Energy
+ * for an interval is the difference between consecutive readings of one
+ * device's counter.
+ */
+
+import { FieldPath, InverterRecord } from '@/types';
+import { createPeriodKeyFormatter, formatPeriodKey, PeriodInterval } from './periods';
+import { asColumnarRecords, ColumnarRecords, getColumnarTimeZone } from './columnar';
+
+/**
+ * Counters that can be used for energy accounting
+ */
+export type EnergyCounterField = Extract<
+  FieldPath,
+  | 'pv.dailyWh'
+  | 'pv.monthlyWd'
+  | 'pv.yearlyWm'
+  | 'pv.totalKWh'
+  | 'inverterSupply.totalKWh'
+>;
+
+/**
+ * How a counter behaves
+ */
+export interface EnergyCounterDefinition {
+  /** Display label */
+  label: string;
+  /** Calendar period after which the device restarts the counter from 0, or null for lifetime counters */
+  resetPeriod: 'day' | 'month' | 'year' | null;
+  /** Factor converting counter units to kWh */
+  toKWh: number;
+  /** Value at which a lifetime register wraps back to 0, when known */
+  rolloverAt?: number;
+}
+
+/**
+ * Counter definitions; all of the watt-hour counters are treated as Wh
+ * (the simulator and the exports agree on that, despite the `Wd`/`Wm` labels)
+ */
+export const ENERGY_COUNTERS: Record<EnergyCounterField, EnergyCounterDefinition> = {
+  'pv.dailyWh': { label: 'PV daily', resetPeriod: 'day', toKWh: 0.001 },
+  'pv.monthlyWd': { label: 'PV monthly', resetPeriod: 'month', toKWh: 0.001 },
+  'pv.yearlyWm': { label: 'PV yearly', resetPeriod: 'year', toKWh: 0.001 },
+  'pv.totalKWh': { label: 'PV lifetime', resetPeriod: null, toKWh: 1 },
+  'inverterSupply.totalKWh': { label: 'Inverter supply lifetime', resetPeriod: null, toKWh: 1 },
+};
+
+/**
+ * Counter used for energy figures unless another is requested. The daily
+ * counter has Wh resolution and is the one loggers report most reliably.
+ */
+export const DEFAULT_ENERGY_COUNTER: EnergyCounterField = 'pv.dailyWh';
+
+/**
+ * Something notable between two consecutive counter readings
+ *
+ * - `reset`: the counter dropped after its reset boundary (expected)
+ * - `rollover`: a lifetime register wrapped past `rolloverAt`
+ * - `backwards`: the counter dropped with no reset or rollover to explain it
+ */
+export interface CounterEvent {
+  deviceId: string;
+  field: EnergyCounterField;
+  type: 'reset' | 'rollover' | 'backwards';
+  /** ISO datetime of the reading where the event was seen */
+  at: string;
+  previous: number;
+  current: number;
+}
+
+/**
+ * Energy measured between two consecutive readings of a device's counter
+ */
+export interface EnergyInterval {
+  deviceId: string;
+  /** ISO datetime of the earlier reading */
+  start: string;
+  /** ISO datetime of the later reading */
+  end: string;
+  /** Site zone used to place the interval in calendar periods */
+  timeZone: string;
+  energyKWh: number;
+}
+
+/**
+ * Energy derived from one counter
+ */
+export interface CounterEnergyResult {
+  field: EnergyCounterField;
+  intervals: EnergyInterval[];
+  events: CounterEvent[];
+  totalKWh: number;
+  byDevice: Record<string, number>;
+  byDay: Record<string, number>;
+  byMonth: Record<string, number>;
+}
+
+/**
+ * A single reading of a counter
+ */
+interface CounterReading {
+  /** Epoch milliseconds */
+  time: number;
+  value: number;
+  timeZone: string;
+}
+
+/**
+ * Collects each device's readings of a counter, in time order
+ */
+function collectReadings(
+  store: ColumnarRecords,
+  field: EnergyCounterField
+): Map<string, CounterReading[]> {
+  const readings = new Map<string, CounterReading[]>();
+  const column = store.readings[field];
+
+  for (let i = 0; i < store.length; i++) {
+    const time = store.datetime[i];
+    const value = column[i];
+    if (isNaN(time) || isNaN(value)) continue;
+
+    const deviceId = store.device.values[store.device.codes[i]];
+    if (!readings.has(deviceId)) readings.set(deviceId, []);
+    readings.get(deviceId)!.push({ time, value, timeZone: getColumnarTimeZone(store, i) });
+  }
+
+  readings.forEach(deviceReadings => deviceReadings.sort((a, b) => a.time - b.time));
+  return readings;
+}
+
+/**
+ * Adds energy to a keyed total
+ */
+function addTo(totals: Record<string, number>, key: string, energy: number): void {
+  totals[key] = (totals[key] ?? 0) + energy;
+}
+
+/**
+ * Energy between two consecutive readings of a counter
+ */
+export interface CounterStep {
+  energyKWh: number;
+  /** What the drop between the readings was taken to be, null when the counter rose */
+  event: CounterEvent['type'] | null;
+}
+
+/**
+ * Computes the energy between two consecutive readings of a device's counter
+ *
+ * A drop in a resetting counter after its reset boundary counts the new
+ * reading as energy since the reset. A drop in a lifetime counter near
+ * `rolloverAt` is treated as a wrap. Any other drop is flagged as `backwards`
+ * and contributes no energy. Reset boundaries are taken in `timeZone`.
+ */
+export function computeCounterStep(
+  previous: { time: number; value: number },
+  current: { time: number; value: number },
+  timeZone: string,
+  definition: EnergyCounterDefinition
+): CounterStep {
+  const delta = current.value - previous.value;
+  if (delta >= 0) return { energyKWh: delta * definition.toKWh, event: null };
+
+  const crossedReset = definition.resetPeriod !== null &&
+    formatPeriodKey(new Date(previous.time), definition.resetPeriod, timeZone) !==
+    formatPeriodKey(new Date(current.time), definition.resetPeriod, timeZone);
+  if (crossedReset) return { energyKWh: current.value * definition.toKWh, event: 'reset' };
+
+  const wrapped = definition.rolloverAt !== undefined && previous.value >= definition.rolloverAt * 0.9;
+  if (wrapped) {
+    return {
+      energyKWh: (definition.rolloverAt! - previous.value + current.value) * definition.toKWh,
+      event: 'rollover',
+    };
+  }
+
+  return { energyKWh: 0, event: 'backwards' };
+}
+
+/**
+ * Walks consecutive counter readings of each device, passing the energy
+ * between them to `visit`, and returns the events seen
+ */
+function walkCounter(
+  store: ColumnarRecords,
+  field: EnergyCounterField,
+  definition: EnergyCounterDefinition,
+  visit: (deviceId: string, previous: CounterReading, current: CounterReading, energyKWh: number) => void
+): CounterEvent[] {
+  const events: CounterEvent[] = [];
+
+  collectReadings(store, field).forEach((readings, deviceId) => {
+    for (let i = 1; i < readings.length; i++) {
+      const previous = readings[i - 1];
+      const current = readings[i];
+      const step = computeCounterStep(previous, current, current.timeZone, definition);
+
+      if (step.event) {
+        events.push({
+          deviceId,
+          field,
+          type: step.event,
+          at: new Date(current.time).toISOString(),
+          previous: previous.value,
+          current: current.value,
+        });
+      }
+
+      visit(deviceId, previous, current, step.energyKWh);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Computes per-interval energy from a cumulative counter
+ *
+ * Energy is attributed to the period of the later reading. Loggers write each
+ * day's final daily counter on that day's 00:00 row, which integrating the PV
+ * power confirms, so no shift across the boundary is needed.
+ *
+ * Pass `includeIntervals: false` to skip the per-interval list, which holds
+ * an object per reading and dominates memory on large record sets.
+ */
+export function computeCounterEnergy(
+  records: InverterRecord[] | ColumnarRecords,
+  field: EnergyCounterField = DEFAULT_ENERGY_COUNTER,
+  definition: EnergyCounterDefinition = ENERGY_COUNTERS[field],
+  includeIntervals = true
+): CounterEnergyResult {
+  const result: CounterEnergyResult = {
+    field,
+    intervals: [],
+    events: [],
+    totalKWh: 0,
+    byDevice: {},
+    byDay: {},
+    byMonth: {},
+  };
+
+  const dayKey = createPeriodKeyFormatter('day');
+  const monthKey = createPeriodKeyFormatter('month');
+
+  result.events = walkCounter(asColumnarRecords(records), field, definition, (deviceId, previous, current, energyKWh) => {
+    if (includeIntervals) {
+      result.intervals.push({
+        deviceId,
+        start: new Date(previous.time).toISOString(),
+        end: new Date(current.time).toISOString(),
+        timeZone: current.timeZone,
+        energyKWh,
+      });
+    }
+    result.totalKWh += energyKWh;
+    addTo(result.byDevice, deviceId, energyKWh);
+    addTo(result.byDay, dayKey(current.time, current.timeZone), energyKWh);
+    addTo(result.byMonth, monthKey(current.time, current.timeZone), energyKWh);
+  });
+
+  return result;
+}
+
+/**
+ * Counter energy of one period
+ */
+export interface PeriodEnergy {
+  totalKWh: number;
+  /** Smallest energy between two readings */
+  minKWh: number;
+  /** Largest energy between two readings */
+  maxKWh: number;
+  /** Number of reading intervals ending in the period */
+  intervals: number;
+}
+
+/**
+ * Computes counter energy per period, attributing each interval to its end,
+ * without keeping the individual intervals
+ */
+export function computeCounterEnergyByPeriod(
+  records: InverterRecord[] | ColumnarRecords,
+  interval: PeriodInterval,
+  field: EnergyCounterField = DEFAULT_ENERGY_COUNTER,
+  definition: EnergyCounterDefinition = ENERGY_COUNTERS[field]
+): Record<string, PeriodEnergy> {
+  const periods: Record<string, PeriodEnergy> = {};
+  const periodKey = createPeriodKeyFormatter(interval);
+
+  walkCounter(asColumnarRecords(records), field, definition, (_deviceId, _previous, current, energyKWh) => {
+    const key = periodKey(current.time, current.timeZone);
+    const period = periods[key];
+    if (!period) {
+      periods[key] = { totalKWh: energyKWh, minKWh: energyKWh, maxKWh: energyKWh, intervals: 1 };
+      return;
+    }
+    period.totalKWh += energyKWh;
+    period.minKWh = Math.min(period.minKWh, energyKWh);
+    period.maxKWh = Math.max(period.maxKWh, energyKWh);
+    period.intervals++;
+  });
+
+  return periods;
+}
+
+/**
+ * Sums interval energy per period, attributing each interval to its end
+ */
+export function sumEnergyByPeriod(
+  intervals: EnergyInterval[],
+  interval: PeriodInterval
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  const periodKey = createPeriodKeyFormatter(interval);
+  intervals.forEach(energyInterval => {
+    addTo(
+      totals,
+      periodKey(new Date(energyInterval.end).getTime(), energyInterval.timeZone),
+      energyInterval.energyKWh
+    );
+  });
+  return totals;
+}
@@ -0,0 +1,128 @@
+/**
+ * Field metadata for CarryGreen inverter readings
+ *
+ * Every numeric reading is addressed by a typed `FieldPath` such as
+ * `pv.powerW` or `grid.voltage`, never a bare key: `voltage` alone exists on
+ * four sections of a record. The metadata says how to label a field and
+ * whether it is a gauge (an instantaneous reading) or a counter (a running
+ * total that only makes sense as differences or as its latest value).
+ */
+
+import { AggregationMethod, FieldPath, FieldPathSchema, InverterRecord } from '@/types';
+
+/**
+ * Whether a reading is instantaneous or a running total
+ */
+export type FieldKind = 'gauge' | 'counter';
+
+/**
+ * Section of the dashboard a field belongs to
+ */
+export type FieldGroup = 'PV' | 'Battery' | 'Inverter' | 'Grid' | 'Inverter supply' | 'Status';
+
+/**
+ * Display and aggregation metadata of a field
+ */
+export interface FieldDefinition {
+  label: string;
+  unit: string;
+  group: FieldGroup;
+  kind: FieldKind;
+  /** Column name in CSV exports (see `recordsToCSV`) */
+  exportHeader: string;
+}
+
+/**
+ * Metadata of every field path
+ */
+export const FIELD_DEFINITIONS: Record<FieldPath, FieldDefinition> = {
+  'inverterSupply.totalKWh': { label: 'Inverter supply total', unit: 'kWh', group: 'Inverter supply', kind: 'counter', exportHeader: 'Inv_Total_kWh' },
+  'pv.voltage': { label: 'PV voltage', unit: 'V', group: 'PV', kind: 'gauge', exportHeader: 'PV_Voltage' },
+  'pv.current': { label: 'PV current', unit: 'A', group: 'PV', kind: 'gauge', exportHeader: 'PV_Current' },
+  'pv.powerW': { label: 'PV power', unit: 'W', group: 'PV', kind: 'gauge', exportHeader: 'PV_Power_W' },
+  'pv.dailyWh': { label: 'PV daily energy', unit: 'Wh', group: 'PV', kind: 'counter', exportHeader: 'PV_Daily_Wh' },
+  'pv.monthlyWd': { label: 'PV monthly energy', unit: 'Wd', group: 'PV', kind: 'counter', exportHeader: 'PV_Monthly_Wd' },
+  'pv.yearlyWm': { label: 'PV yearly energy', unit: 'Wm', group: 'PV', kind: 'counter', exportHeader: 'PV_Yearly_Wm' },
+  'pv.totalKWh': { label: 'PV total energy', unit: 'kWh', group: 'PV', kind: 'counter', exportHeader: 'PV_Total_kWh' },
+  'battery.voltage': { label: 'Battery voltage', unit: 'V', group: 'Battery', kind: 'gauge', exportHeader: 'Battery_Voltage' },
+  'battery.current': { label: 'Battery current', unit: 'A', group: 'Battery', kind: 'gauge', exportHeader: 'Battery_Current' },
+  'battery.temperature': { label: 'Battery temperature', unit: '°C', group: 'Battery', kind: 'gauge', exportHeader: 'Battery_Temp' },
+  'battery.soc': { label: 'State of charge', unit: '%', group: 'Battery', kind: 'gauge', exportHeader: 'Battery_SOC' },
+  'inverter.voltage': { label: 'Inverter voltage', unit: 'V', group: 'Inverter', kind: 'gauge', exportHeader: 'Inverter_Voltage' },
+  'inverter.current': { label: 'Inverter current', unit: 'A', group: 'Inverter', kind: 'gauge', exportHeader: 'Inverter_Current' },
+  'inverter.frequency': { label: 'Inverter frequency', unit: 'Hz', group: 'Inverter', kind: 'gauge', exportHeader: 'Inverter_Hz' },
+  'grid.voltage': { label: 'Grid voltage', unit: 'V', group: 'Grid', kind: 'gauge', exportHeader: 'Grid_Voltage' },
+  'grid.current': { label: 'Grid current', unit: 'A', group: 'Grid', kind: 'gauge', exportHeader: 'Grid_Current' },
+  'grid.frequency': { label: 'Grid frequency', unit: 'Hz', group: 'Grid', kind: 'gauge', exportHeader: 'Grid_Hz' },
+  'userRecord.blackout.ratio': { label: 'Blackout', unit: 'ratio', group: 'Status', kind: 'gauge', exportHeader: 'Blackout' },
+};
+
+/**
+ * Every field path, in record order
+ */
+export const FIELD_PATHS: readonly FieldPath[] = FieldPathSchema.options;
+
+/**
+ * Checks whether a string is a field path
+ */
+export function isFieldPath(value: string): value is FieldPath {
+  return FieldPathSchema.safeParse(value).success;
+}
+
+/**
+ * Reads a field from a record, null when the device did not report it
+ */
+export function getFieldValue(record: InverterRecord, path: FieldPath): number | null {
+  let value: unknown = record;
+  for (const part of path.split('.')) {
+    if (!value || typeof value !== 'object') return null;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+}
+
+/**
+ * Reads the reported values of a field from records, skipping unreported ones
+ */
+export function getFieldValues(records: InverterRecord[], path: FieldPath): number[] {
+  const values: number[] = [];
+  records.forEach(record => {
+    const value = getFieldValue(record, path);
+    if (value !== null) values.push(value);
+  });
+  return values;
+}
+
+/**
+ * Formats a field's label with its unit (e.g. `PV power (W)`)
+ */
+export function formatFieldLabel(path: FieldPath): string {
+  const { label, unit } = FIELD_DEFINITIONS[path];
+  return `${label} (${unit})`;
+}
+
+/**
+ * Default aggregation method of a field: gauges are averaged, counters keep
+ * their latest reading
+ */
+export function getDefaultAggregationMethod(path: FieldPath): Extract<AggregationMethod, 'average' | 'last'> {
+  return FIELD_DEFINITIONS[path].kind === 'counter' ? 'last' : 'average';
+}
+
+/**
+ * Field choices for chart pickers, grouped by section
+ */
+export function getFieldOptions(
+  filter: (definition: FieldDefinition, path: FieldPath) => boolean = () => true
+): Array<{ group: FieldGroup; options: Array<{ value: FieldPath; label: string }> }> {
+  const groups = new Map<FieldGroup, Array<{ value: FieldPath; label: string }>>();
+
+  FIELD_PATHS.forEach(path => {
+    const definition = FIELD_DEFINITIONS[path];
+    if (!filter(definition, path)) return;
+    if (!groups.has(definition.group)) groups.set(definition.group, []);
+    groups.get(definition.group)!.push({ value: path, label: formatFieldLabel(path) });
+  });
+
+  return Array.from(groups.entries()).map(([group, options]) => ({ group, options }));
+}
@@ -0,0 +1,120 @@
+/**
+ * Header resolution for CarryGreen CSV exports
+ *
+ * Exports start with a group row (`User Record, Inv Supply, PV, BATTERY,
+ * INVERTER, GRID, Status`) followed by a name row in which `Voltage`,
+ * `Current`, `Hz` and `Total kWh` repeat once per section. Columns are
+ * resolved by their (section, name) pair into RawCSVRow keys.
+ */
+
+import { RawCSVRow } from '@/types';
+
+/**
+ * Column key for each (section, column name) pair of the grouped header
+ */
+export const SECTION_COLUMN_MAP: Record<string, Record<string, keyof RawCSVRow>> = {
+  'user record': {
+    ID: 'ID',
+    Date: 'Date',
+    Time: 'Time',
+    Name: 'Name',
+  },
+  'inv supply': {
+    Blackout: 'Blackout',
+    'Total kWh': 'Total kWh',
+  },
+  pv: {
+    Voltage: 'Voltage',
+    Current: 'Current',
+    'Power W': 'Power W',
+    'Daily Wh': 'Daily Wh',
+    'Monthly Wd': 'Monthly Wd',
+    'Yearly Wm': 'Yearly Wm',
+    'Total kWh': 'Total kWh_1',
+  },
+  battery: {
+    Voltage: 'Voltage_1',
+    Current: 'Current_1',
+    Temp: 'Temp',
+    SOC: 'SOC',
+  },
+  inverter: {
+    Voltage: 'Voltage_2',
+    Current: 'Current_2',
+    Hz: 'Hz',
+  },
+  grid: {
+    Voltage: 'Voltage_3',
+    Current: 'Current_3',
+    Hz: 'Hz_1',
+  },
+  status: {
+    Hex: 'Hex',
+  },
+};
+
+/**
+ * Normalizes a section label for lookup in SECTION_COLUMN_MAP
+ */
+function normalizeSection(section: string): string {
+  return section.trim().toLowerCase();
+}
+
+/**
+ * Checks whether a row is the group header row rather than the column name row
+ */
+export function isGroupHeaderRow(row: string[]): boolean {
+  const cells = row.map(cell => cell.trim()).filter(Boolean);
+  if (cells.length === 0) return false;
+  if (cells.includes('ID') || cells.includes('Time')) return false;
+  return cells.every(cell => normalizeSection(cell) in SECTION_COLUMN_MAP);
+}
+
+/**
+ * Resolves each column of the header to a RawCSVRow key
+ *
+ * With a group row, columns are matched by (section, name). Without one,
+ * repeated names are numbered by occurrence (`Voltage`, `Voltage_1`, …),
+ * which matches the standard column order. Unknown columns resolve to null.
+ */
+export function resolveColumnKeys(
+  nameRow: string[],
+  groupRow: string[] | null = null
+): Array<keyof RawCSVRow | null> {
+  if (groupRow) {
+    let section = '';
+    return nameRow.map((name, index) => {
+      const groupCell = (groupRow[index] || '').trim();
+      if (groupCell) section = normalizeSection(groupCell);
+      return SECTION_COLUMN_MAP[section]?.[name.trim()] ?? null;
+    });
+  }
+
+  const knownKeys = new Set<string>(
+    Object.values(SECTION_COLUMN_MAP).flatMap(columns => Object.values(columns))
+  );
+  const occurrences: Record<string, number> = {};
+
+  return nameRow.map(name => {
+    const cleanName = name.trim();
+    const count = occurrences[cleanName] ?? 0;
+    occurrences[cleanName] = count + 1;
+
+    const key = count === 0 ? cleanName : `${cleanName}_${count}`;
+    return knownKeys.has(key) ? (key as keyof RawCSVRow) : null;
+  });
+}
+
+/**
+ * Builds a RawCSVRow from a row of cells using resolved column keys
+ */
+export function mapRowToRaw(
+  cells: string[],
+  columnKeys: Array<keyof RawCSVRow | null>
+): Partial<RawCSVRow> {
+  const row: Partial<RawCSVRow> = {};
+  columnKeys.forEach((key, index) => {
+    if (key) row[key] = (cells[index] ?? '').trim();
+  });
+  return row;
+}
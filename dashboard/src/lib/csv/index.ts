@@ -5,5 +5,18 @@
  */
 
 export * from './parser';
+export * from './headers';
+export * from './status-flags';
 export * from './validation';
-export * from './transformations';
\ No newline at end of file
+export * from './profiles';
+export * from './transformations';
+export * from './statistics';
+export * from './worker-client';
+export * from './periods';
+export * from './counters';
+export * from './quality';
+export * from './fields';
+export * from './time-series';
+export * from './columnar';
+export * from './online-aggregation';
+export * from './sites';
@@ -0,0 +1,314 @@
+/**
+ * Incremental aggregation for live inverter data
+ *
+ * `aggregateData` needs every raw sample and re-scans them on each call. The
+ * online aggregator instead folds each record into running min/max/sum/count
+ * per period as it arrives, so the live dashboard can show hourly profiles
+ * and daily totals while only keeping a bounded number of buckets.
+ */
+
+import { AggregatedData, AggregatedFieldStats, AggregationMethod, FieldPath, InverterRecord } from '@/types';
+import { getRecordTimeZone } from '@/lib/record-adapters';
+import { createPeriodKeyFormatter, PeriodInterval } from './periods';
+import { FIELD_PATHS, getDefaultAggregationMethod, getFieldValue } from './fields';
+import { computeCounterStep, DEFAULT_ENERGY_COUNTER, ENERGY_COUNTERS, EnergyCounterField } from './counters';
+
+/**
+ * Aggregation methods that can be computed from running totals
+ */
+export type OnlineAggregationMethod = Extract<
+  AggregationMethod,
+  'average' | 'sum' | 'min' | 'max' | 'first' | 'last' | 'count'
+>;
+
+/**
+ * Options for the online aggregator
+ */
+export interface OnlineAggregatorOptions {
+  /** Intervals to keep buckets for (default minute, hour and day) */
+  intervals?: PeriodInterval[];
+  /** Fields to aggregate (default every field) */
+  fields?: FieldPath[];
+  /** Per-field methods; others use the field's default */
+  methods?: Partial<Record<FieldPath, OnlineAggregationMethod>>;
+  /** Buckets kept per interval; the oldest are dropped first */
+  retention?: Partial<Record<PeriodInterval, number>>;
+  /** Counter the `energy` value is computed from */
+  counter?: EnergyCounterField;
+}
+
+/**
+ * Running statistics of a field within a bucket
+ */
+interface RunningStats {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  first: number;
+  firstTime: number;
+  last: number;
+  lastTime: number;
+}
+
+/**
+ * Running totals of one period
+ */
+interface Bucket {
+  period: string;
+  count: number;
+  fields: Map<FieldPath, RunningStats>;
+  energyKWh: number;
+  energyIntervals: number;
+  energyMin: number;
+  energyMax: number;
+}
+
+/**
+ * Default buckets kept per interval: three hours of minutes, two days of
+ * hours and a month of days
+ */
+export const DEFAULT_ONLINE_RETENTION: Partial<Record<PeriodInterval, number>> = {
+  minute: 180,
+  hour: 48,
+  day: 31,
+};
+
+/**
+ * Buckets kept for intervals without a retention setting
+ */
+const FALLBACK_RETENTION = 100;
+
+const DAY_MS = 86400000;
+
+/**
+ * Aggregates records one at a time into per-period running statistics
+ */
+export class OnlineAggregator {
+  private readonly intervals: PeriodInterval[];
+  private readonly fields: readonly FieldPath[];
+  private readonly methods: Partial<Record<FieldPath, OnlineAggregationMethod>>;
+  private readonly retention: Partial<Record<PeriodInterval, number>>;
+  private readonly counter: EnergyCounterField;
+  private periodKeys = new Map<PeriodInterval, (time: number, timeZone: string) => string>();
+  /** UTC day (days since the epoch) of the newest record the formatters have seen */
+  private periodKeysDay = -Infinity;
+  private readonly buckets = new Map<PeriodInterval, Map<string, Bucket>>();
+  private readonly lastCounterReadings = new Map<string, { time: number; value: number }>();
+
+  constructor(options: OnlineAggregatorOptions = {}) {
+    this.intervals = options.intervals ?? ['minute', 'hour', 'day'];
+    this.fields = options.fields ?? FIELD_PATHS;
+    this.methods = options.methods ?? {};
+    this.retention = { ...DEFAULT_ONLINE_RETENTION, ...options.retention };
+    this.counter = options.counter ?? DEFAULT_ENERGY_COUNTER;
+    this.resetPeriodKeys();
+    this.intervals.forEach(interval => this.buckets.set(interval, new Map()));
+  }
+
+  /**
+   * Folds a record into the buckets of every interval
+   *
+   * Records without a usable timestamp are ignored. Counter energy is only
+   * taken from readings newer than the device's previous one.
+   */
+  public add(record: InverterRecord): void {
+    const { datetime } = record.userRecord.timestamp;
+    const time = datetime ? new Date(datetime).getTime() : NaN;
+    if (isNaN(time)) return;
+
+    // Formatters cache zone offsets without bound, so a live stream starts
+    // new ones each day instead of keeping them for the life of the page
+    const day = Math.floor(time / DAY_MS);
+    if (day > this.periodKeysDay) {
+      this.periodKeysDay = day;
+      this.resetPeriodKeys();
+    }
+
+    const timeZone = getRecordTimeZone(record);
+    const energyKWh = this.takeCounterEnergy(record, time, timeZone);
+
+    this.intervals.forEach(interval => {
+      const bucket = this.getBucket(interval, this.periodKeys.get(interval)!(time, timeZone));
+      bucket.count++;
+
+      this.fields.forEach(path => {
+        const value = getFieldValue(record, path);
+        if (value !== null) addToStats(bucket.fields, path, value, time);
+      });
+
+      if (energyKWh !== null) {
+        bucket.energyKWh += energyKWh;
+        bucket.energyIntervals++;
+        bucket.energyMin = Math.min(bucket.energyMin, energyKWh);
+        bucket.energyMax = Math.max(bucket.energyMax, energyKWh);
+      }
+    });
+  }
+
+  /**
+   * Returns the aggregates of an interval, oldest period first
+   *
+   * Values hold each field's method result plus `energy`, the counter energy
+   * (kWh) in the period, in the same shape as `aggregateData`.
+   */
+  public getAggregates(interval: PeriodInterval): AggregatedData[] {
+    const buckets = this.buckets.get(interval);
+    if (!buckets) return [];
+
+    return Array.from(buckets.values())
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(bucket => this.toAggregatedData(bucket));
+  }
+
+  /**
+   * Returns the aggregate of one period, or null if it has no bucket
+   */
+  public getAggregate(interval: PeriodInterval, period: string): AggregatedData | null {
+    const bucket = this.buckets.get(interval)?.get(period);
+    return bucket ? this.toAggregatedData(bucket) : null;
+  }
+
+  /**
+   * Drops all buckets, counter readings and cached zone offsets
+   */
+  public clear(): void {
+    this.buckets.forEach(buckets => buckets.clear());
+    this.lastCounterReadings.clear();
+    this.periodKeysDay = -Infinity;
+    this.resetPeriodKeys();
+  }
+
+  /**
+   * Starts a period key formatter per interval, with empty offset caches
+   */
+  private resetPeriodKeys(): void {
+    this.periodKeys = new Map(this.intervals.map(interval => [interval, createPeriodKeyFormatter(interval)]));
+  }
+
+  /**
+   * Returns the counter energy since the device's previous reading, or null
+   * when there is no earlier reading to compare with
+   */
+  private takeCounterEnergy(record: InverterRecord, time: number, timeZone: string): number | null {
+    const value = getFieldValue(record, this.counter);
+    if (value === null) return null;
+
+    const deviceId = record.userRecord.id;
+    const previous = this.lastCounterReadings.get(deviceId);
+    if (previous && time <= previous.time) return null;
+
+    this.lastCounterReadings.set(deviceId, { time, value });
+    if (!previous) return null;
+    return computeCounterStep(previous, { time, value }, timeZone, ENERGY_COUNTERS[this.counter]).energyKWh;
+  }
+
+  /**
+   * Returns the bucket of a period, creating it and dropping the oldest
+   * buckets beyond the retention
+   */
+  private getBucket(interval: PeriodInterval, period: string): Bucket {
+    const buckets = this.buckets.get(interval)!;
+    let bucket = buckets.get(period);
+    if (bucket) return bucket;
+
+    bucket = {
+      period,
+      count: 0,
+      fields: new Map(),
+      energyKWh: 0,
+      energyIntervals: 0,
+      energyMin: Infinity,
+      energyMax: -Infinity,
+    };
+    buckets.set(period, bucket);
+
+    const retention = this.retention[interval] ?? FALLBACK_RETENTION;
+    if (buckets.size > retention) {
+      const periods = Array.from(buckets.keys()).sort();
+      periods.slice(0, buckets.size - retention).forEach(oldest => buckets.delete(oldest));
+    }
+    return bucket;
+  }
+
+  /**
+   * Converts a bucket to the `aggregateData` result shape
+   */
+  private toAggregatedData(bucket: Bucket): AggregatedData {
+    const values: Record<string, number | null> = {};
+    const stats: Record<string, AggregatedFieldStats> = {};
+
+    this.fields.forEach(path => {
+      const running = bucket.fields.get(path);
+      const method = this.methods[path] ?? getDefaultAggregationMethod(path);
+      values[path] = running ? resolveMethod(running, method) : method === 'count' ? 0 : null;
+      stats[path] = running
+        ? { min: running.min, max: running.max, count: running.count }
+        : { min: null, max: null, count: 0 };
+    });
+
+    const hasEnergy = bucket.energyIntervals > 0;
+    values.energy = hasEnergy ? bucket.energyKWh : null;
+    stats.energy = hasEnergy
+      ? { min: bucket.energyMin, max: bucket.energyMax, count: bucket.energyIntervals }
+      : { min: null, max: null, count: 0 };
+
+    return { period: bucket.period, values, stats, count: bucket.count };
+  }
+}
+
+/**
+ * Folds a reading into a field's running statistics
+ */
+function addToStats(fields: Map<FieldPath, RunningStats>, path: FieldPath, value: number, time: number): void {
+  const stats = fields.get(path);
+  if (!stats) {
+    fields.set(path, {
+      count: 1,
+      sum: value,
+      min: value,
+      max: value,
+      first: value,
+      firstTime: time,
+      last: value,
+      lastTime: time,
+    });
+    return;
+  }
+
+  stats.count++;
+  stats.sum += value;
+  stats.min = Math.min(stats.min, value);
+  stats.max = Math.max(stats.max, value);
+  if (time < stats.firstTime) {
+    stats.first = value;
+    stats.firstTime = time;
+  }
+  if (time >= stats.lastTime) {
+    stats.last = value;
+    stats.lastTime = time;
+  }
+}
+
+/**
+ * Reads an aggregation method's result from running statistics
+ */
+function resolveMethod(stats: RunningStats, method: OnlineAggregationMethod): number {
+  switch (method) {
+    case 'sum':
+      return stats.sum;
+    case 'min':
+      return stats.min;
+    case 'max':
+      return stats.max;
+    case 'first':
+      return stats.first;
+    case 'last':
+      return stats.last;
+    case 'count':
+      return stats.count;
+    case 'average':
+    default:
+      return stats.sum / stats.count;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Web Worker that streams a CSV file through the parser
+ *
+ * Started by `parseCSVInWorker`; keeps multi-month exports off the main
+ * thread. Each request gets its own worker, which is terminated when the
+ * parse finishes or is cancelled.
+ */
+
+import { ParseProgress, ParseResult, SiteTimeZoneConfig, ValidationProfile } from '@/types';
+import { parseCSVStream } from './parser';
+import { configureStatusFlags, StatusFlagDefinition } from './status-flags';
+
+/**
+ * Message sent to the worker to start a parse
+ */
+export interface ParseWorkerRequest {
+  type: 'parse';
+  file: File;
+  profile?: ValidationProfile;
+  timeZones?: SiteTimeZoneConfig;
+  /** Status flag registry of the main thread, which the worker does not share */
+  statusFlags?: StatusFlagDefinition[];
+  chunkSize?: number;
+}
+
+/**
+ * Messages posted back by the worker
+ */
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'complete'; result: ParseResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file, profile, timeZones, statusFlags, chunkSize } = event.data;
+  const post = (message: ParseWorkerResponse) => ctx.postMessage(message);
+
+  try {
+    if (statusFlags) configureStatusFlags(statusFlags);
+
+    const result = await parseCSVStream(file, {
+      profile,
+      timeZones,
+      chunkSize,
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'complete', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
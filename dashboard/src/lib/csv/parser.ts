@@ -7,7 +7,10 @@ import {
   InverterRecord,
   ParseResult,
   ParseError,
+  ParseProgress,
   RawCSVRow,
+  ValidationProfile,
+  SiteTimeZoneConfig,
   Timestamp,
   UserRecord,
   InverterSupply,
@@ -24,51 +27,156 @@ import {
   validateEnergy,
   validateTemperature,
   validateSOC,
-  validateFrequency,
+  validateACSource,
   validateDate,
   validateTime,
   validateBlackout,
   validateHex,
 } from './validation';
+import { isGroupHeaderRow, resolveColumnKeys, mapRowToRaw } from './headers';
+import { decodeStatusFlags } from './status-flags';
+import { DEFAULT_VALIDATION_PROFILE } from './profiles';
+import { DEFAULT_SITE_TIME_ZONES, getSiteTimeZone } from './sites';
+import { validateInverterRecord } from '@/lib/schema-validation';
+import { AmbiguousTimeResolution, getFallBackMinutes, isValidTimeZone, zonedDateTimeToUtc } from '@/lib/timezone';
 
 /**
  * Papa Parse configuration for CarryGreen CSV files
+ *
+ * Headers are resolved manually (see `./headers`) because the export uses a
+ * two-row grouped header with repeated column names.
  */
 export const CSV_PARSE_CONFIG: Papa.ParseConfig = {
-  header: true,
+  header: false,
   skipEmptyLines: true,
-  trimHeaders: true,
   dynamicTyping: false, // We'll handle type conversion manually
-  transformHeader: (header: string) => {
-    // Clean up header names and handle duplicates
-    const cleanHeader = header.trim();
-    switch (cleanHeader) {
-      case 'Total kWh':
-        return 'InvSupply_TotalKWh';
-      case 'Voltage':
-        return 'PV_Voltage';
-      case 'Current':
-        return 'PV_Current';
-      case 'Power W':
-        return 'PV_PowerW';
-      case 'Daily Wh':
-        return 'PV_DailyWh';
-      case 'Monthly Wd':
-        return 'PV_MonthlyWd';
-      case 'Yearly Wm':
-        return 'PV_YearlyWm';
-      case 'Total kWh':
-        return 'PV_TotalKWh';
-      default:
-        return cleanHeader;
-    }
-  },
 };
 
 /**
- * Creates a timestamp object from date and time strings
+ * Options for parsing CarryGreen CSV content
+ */
+export interface CSVParseOptions {
+  /** Validation profile for the site; defaults to the wide-range profile */
+  profile?: ValidationProfile;
+  /** Site time zone of each device; defaults to UTC */
+  timeZones?: SiteTimeZoneConfig;
+}
+
+/**
+ * Tracks the device block currently being read.
+ *
+ * CarryGreen exports only fill ID, Name and Date on the first row of each
+ * device block; continuation rows carry just the Time and readings.
+ */
+interface BlockState {
+  id: string;
+  name: string;
+  date: string;
+  /** Minutes since midnight of the previous row, used to detect date rollover */
+  lastMinutes: number | null;
+  /** Site time zone of the device */
+  timeZone: string;
+  /** Set once the clocks have fallen back today, so repeated times resolve to the later pass */
+  afterFallBack: boolean;
+}
+
+/**
+ * Creates an empty block state
+ */
+function createBlockState(): BlockState {
+  return { id: '', name: '', date: '', lastMinutes: null, timeZone: 'UTC', afterFallBack: false };
+}
+
+/**
+ * Converts an HH:MM string to minutes since midnight
+ */
+function timeToMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date string
+ */
+function addDays(date: string, days: number): string {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime())) return date;
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Fills ID, Name and Date down from the first row of the current device block.
+ *
+ * A new `HINV-…` ID starts a new block. When a continuation row has no Date and
+ * its time wraps past midnight (e.g. 23:59 → 00:01), the date rolls forward,
+ * unless the step back is the site's DST fall-back (e.g. 01:59 → 01:00).
+ */
+function fillDownBlockFields(
+  row: Partial<RawCSVRow>,
+  state: BlockState,
+  timeZones: SiteTimeZoneConfig = DEFAULT_SITE_TIME_ZONES
+): Partial<RawCSVRow> {
+  const id = (row.ID || '').trim();
+  const name = (row.Name || '').trim();
+  const date = (row.Date || '').trim();
+  const minutes = timeToMinutes(row.Time || '');
+
+  if (id && id !== state.id) {
+    state.id = id;
+    state.name = name;
+    state.date = date;
+    state.lastMinutes = null;
+    state.timeZone = getSiteTimeZone(id, timeZones);
+    state.afterFallBack = false;
+  } else {
+    if (name) state.name = name;
+    if (date) {
+      if (date !== state.date) state.afterFallBack = false;
+      state.date = date;
+    } else if (
+      state.date &&
+      minutes !== null &&
+      state.lastMinutes !== null &&
+      minutes < state.lastMinutes
+    ) {
+      const fallBackMinutes = state.afterFallBack ? 0 : getFallBackMinutes(state.date, state.timeZone);
+      if (state.lastMinutes - minutes <= fallBackMinutes) {
+        state.afterFallBack = true;
+      } else {
+        state.date = addDays(state.date, 1);
+        state.afterFallBack = false;
+      }
+    }
+  }
+
+  if (minutes !== null) state.lastMinutes = minutes;
+
+  return {
+    ...row,
+    ID: state.id,
+    Name: state.name,
+    Date: state.date,
+  };
+}
+
+/**
+ * Site clock a row's date and time are read in
  */
-function createTimestamp(date: string, time: string, rowIndex: number): {
+interface RowClock {
+  /** IANA zone of the device's site */
+  timeZone: string;
+  /** Pass to use for times repeated by a DST fall-back */
+  ambiguous: AmbiguousTimeResolution;
+}
+
+const UTC_CLOCK: RowClock = { timeZone: 'UTC', ambiguous: 'earlier' };
+
+/**
+ * Creates a timestamp object from date and time strings in the site's zone
+ */
+function createTimestamp(date: string, time: string, rowIndex: number, clock: RowClock = UTC_CLOCK): {
   timestamp: Timestamp;
   errors: ParseError[];
 } {
@@ -81,16 +189,27 @@ function createTimestamp(date: string, time: string, rowIndex: number): {
   if (timeValidation.error) errors.push(timeValidation.error);
 
   let datetime: string | undefined;
-  if (!dateValidation.error && !timeValidation.error) {
-    try {
-      datetime = new Date(`${dateValidation.value}T${timeValidation.value}:00`).toISOString();
-    } catch (e) {
+  if (!isValidTimeZone(clock.timeZone)) {
+    errors.push({
+      row: rowIndex,
+      field: 'timeZone',
+      value: clock.timeZone,
+      message: 'Unknown IANA time zone',
+      type: 'validation',
+      severity: 'error',
+    });
+  } else if (!dateValidation.error && !timeValidation.error) {
+    const instant = zonedDateTimeToUtc(dateValidation.value, timeValidation.value, clock.timeZone, clock.ambiguous);
+    if (instant) {
+      datetime = instant.toISOString();
+    } else {
       errors.push({
         row: rowIndex,
         field: 'datetime',
         value: `${date} ${time}`,
         message: 'Failed to create valid datetime',
         type: 'conversion',
+        severity: 'error',
       });
     }
   }
@@ -100,6 +219,7 @@ function createTimestamp(date: string, time: string, rowIndex: number): {
       date: dateValidation.value,
       time: timeValidation.value,
       datetime,
+      timeZone: clock.timeZone,
     },
     errors,
   };
@@ -108,14 +228,20 @@ function createTimestamp(date: string, time: string, rowIndex: number): {
 /**
  * Parses a single CSV row into an InverterRecord
  */
-function parseRow(row: any, rowIndex: number): {
+function parseRow(
+  row: Partial<RawCSVRow>,
+  rowIndex: number,
+  profile: ValidationProfile = DEFAULT_VALIDATION_PROFILE,
+  clock: RowClock = UTC_CLOCK
+): {
   record?: InverterRecord;
   errors: ParseError[];
 } {
   const errors: ParseError[] = [];
+  const { rules } = profile;
 
   // Create timestamp
-  const timestampResult = createTimestamp(row.Date || '', row.Time || '', rowIndex);
+  const timestampResult = createTimestamp(row.Date || '', row.Time || '', rowIndex, clock);
   errors.push(...timestampResult.errors);
 
   // Parse blackout status
@@ -131,7 +257,7 @@ function parseRow(row: any, rowIndex: number): {
   };
 
   // Inverter Supply
-  const invSupplyValidation = validateEnergy(row.InvSupply_TotalKWh || row['Total kWh'] || '', 'InvSupply_TotalKWh', rowIndex);
+  const invSupplyValidation = validateEnergy(row['Total kWh'] || '', 'InvSupply_TotalKWh', rowIndex, rules.energy);
   if (invSupplyValidation.error) errors.push(invSupplyValidation.error);
 
   const inverterSupply: InverterSupply = {
@@ -139,13 +265,13 @@ function parseRow(row: any, rowIndex: number): {
   };
 
   // PV Data
-  const pvVoltageValidation = validateVoltage(row.PV_Voltage || row.Voltage || '', 'PV_Voltage', rowIndex);
-  const pvCurrentValidation = validateCurrent(row.PV_Current || row.Current || '', 'PV_Current', rowIndex);
-  const pvPowerValidation = validatePower(row.PV_PowerW || row['Power W'] || '', 'PV_PowerW', rowIndex);
-  const pvDailyWhValidation = validateEnergy(row.PV_DailyWh || row['Daily Wh'] || '', 'PV_DailyWh', rowIndex);
-  const pvMonthlyWdValidation = validateEnergy(row.PV_MonthlyWd || row['Monthly Wd'] || '', 'PV_MonthlyWd', rowIndex);
-  const pvYearlyWmValidation = validateEnergy(row.PV_YearlyWm || row['Yearly Wm'] || '', 'PV_YearlyWm', rowIndex);
-  const pvTotalKWhValidation = validateEnergy(row.PV_TotalKWh || row['Total kWh'] || '', 'PV_TotalKWh', rowIndex);
+  const pvVoltageValidation = validateVoltage(row.Voltage || '', 'PV_Voltage', rowIndex, rules.pvVoltage);
+  const pvCurrentValidation = validateCurrent(row.Current || '', 'PV_Current', rowIndex, rules.pvCurrent);
+  const pvPowerValidation = validatePower(row['Power W'] || '', 'PV_PowerW', rowIndex, rules.pvPower);
+  const pvDailyWhValidation = validateEnergy(row['Daily Wh'] || '', 'PV_DailyWh', rowIndex, rules.energy);
+  const pvMonthlyWdValidation = validateEnergy(row['Monthly Wd'] || '', 'PV_MonthlyWd', rowIndex, rules.energy);
+  const pvYearlyWmValidation = validateEnergy(row['Yearly Wm'] || '', 'PV_YearlyWm', rowIndex, rules.energy);
+  const pvTotalKWhValidation = validateEnergy(row['Total kWh_1'] || '', 'PV_TotalKWh', rowIndex, rules.energy);
 
   [pvVoltageValidation, pvCurrentValidation, pvPowerValidation, pvDailyWhValidation,
    pvMonthlyWdValidation, pvYearlyWmValidation, pvTotalKWhValidation].forEach(validation => {
@@ -163,10 +289,10 @@ function parseRow(row: any, rowIndex: number): {
   };
 
   // Battery Data
-  const batteryVoltageValidation = validateVoltage(row.Voltage_1 || '', 'Battery_Voltage', rowIndex);
-  const batteryCurrentValidation = validateCurrent(row.Current_1 || '', 'Battery_Current', rowIndex);
-  const batteryTempValidation = validateTemperature(row.Temp || '', 'Battery_Temp', rowIndex);
-  const batterySOCValidation = validateSOC(row.SOC || '', 'Battery_SOC', rowIndex);
+  const batteryVoltageValidation = validateVoltage(row.Voltage_1 || '', 'Battery_Voltage', rowIndex, rules.batteryVoltage);
+  const batteryCurrentValidation = validateCurrent(row.Current_1 || '', 'Battery_Current', rowIndex, rules.batteryCurrent);
+  const batteryTempValidation = validateTemperature(row.Temp || '', 'Battery_Temp', rowIndex, rules.batteryTemperature);
+  const batterySOCValidation = validateSOC(row.SOC || '', 'Battery_SOC', rowIndex, rules.soc);
 
   [batteryVoltageValidation, batteryCurrentValidation, batteryTempValidation, batterySOCValidation].forEach(validation => {
     if (validation.error) errors.push(validation.error);
@@ -179,35 +305,18 @@ function parseRow(row: any, rowIndex: number): {
     soc: batterySOCValidation.value,
   };
 
-  // Inverter Data
-  const inverterVoltageValidation = validateVoltage(row.Voltage_2 || '', 'Inverter_Voltage', rowIndex);
-  const inverterCurrentValidation = validateCurrent(row.Current_2 || '', 'Inverter_Current', rowIndex);
-  const inverterFreqValidation = validateFrequency(row.Hz || '', 'Inverter_Frequency', rowIndex);
-
-  [inverterVoltageValidation, inverterCurrentValidation, inverterFreqValidation].forEach(validation => {
-    if (validation.error) errors.push(validation.error);
-  });
+  // Inverter Data (0 V / 0 Hz is classified as offline rather than an error)
+  const acRules = { voltage: rules.acVoltage, current: rules.acCurrent, frequency: rules.frequency };
+  const inverterValidation = validateACSource(row.Voltage_2 || '', row.Current_2 || '', row.Hz || '', 'Inverter', rowIndex, acRules);
+  errors.push(...inverterValidation.errors);
 
-  const inverter: InverterData = {
-    voltage: inverterVoltageValidation.value,
-    current: inverterCurrentValidation.value,
-    frequency: inverterFreqValidation.value,
-  };
+  const inverter: InverterData = inverterValidation.value;
 
   // Grid Data
-  const gridVoltageValidation = validateVoltage(row.Voltage_3 || '', 'Grid_Voltage', rowIndex);
-  const gridCurrentValidation = validateCurrent(row.Current_3 || '', 'Grid_Current', rowIndex);
-  const gridFreqValidation = validateFrequency(row.Hz_1 || '', 'Grid_Frequency', rowIndex);
+  const gridValidation = validateACSource(row.Voltage_3 || '', row.Current_3 || '', row.Hz_1 || '', 'Grid', rowIndex, acRules);
+  errors.push(...gridValidation.errors);
 
-  [gridVoltageValidation, gridCurrentValidation, gridFreqValidation].forEach(validation => {
-    if (validation.error) errors.push(validation.error);
-  });
-
-  const grid: GridData = {
-    voltage: gridVoltageValidation.value,
-    current: gridCurrentValidation.value,
-    frequency: gridFreqValidation.value,
-  };
+  const grid: GridData = gridValidation.value;
 
   // System Status
   const hexValidation = validateHex(row.Hex || '', 'Status_Hex', rowIndex);
@@ -215,6 +324,7 @@ function parseRow(row: any, rowIndex: number): {
 
   const status: SystemStatus = {
     hex: hexValidation.value,
+    flags: decodeStatusFlags(hexValidation.value),
   };
 
   // Only create record if we have minimal required data
@@ -225,11 +335,13 @@ function parseRow(row: any, rowIndex: number): {
       value: 'incomplete',
       message: 'Row missing required ID or date information',
       type: 'validation',
+      severity: 'error',
     });
     return { errors };
   }
 
-  const record: InverterRecord = {
+  // Check the assembled record against the schema before handing it out
+  const recordValidation = validateInverterRecord({
     userRecord,
     inverterSupply,
     pv,
@@ -237,70 +349,241 @@ function parseRow(row: any, rowIndex: number): {
     inverter,
     grid,
     status,
+  }, rowIndex);
+  errors.push(...recordValidation.errors);
+
+  return { record: recordValidation.data, errors };
+}
+
+/**
+ * Incremental state of a parse, so rows can be fed in one chunk at a time
+ */
+interface ParseSession {
+  profile: ValidationProfile;
+  timeZones: SiteTimeZoneConfig;
+  /** Group row seen before the column name row, if any */
+  groupRow: string[] | null;
+  /** Resolved column keys, null until the column name row has been read */
+  columnKeys: Array<keyof RawCSVRow | null> | null;
+  blockState: BlockState;
+  /** Rows consumed so far, including header rows */
+  rowsSeen: number;
+  records: InverterRecord[];
+  errors: ParseError[];
+  totalRows: number;
+}
+
+/**
+ * Creates an empty parse session
+ */
+function createParseSession(options: CSVParseOptions): ParseSession {
+  return {
+    profile: options.profile ?? DEFAULT_VALIDATION_PROFILE,
+    timeZones: options.timeZones ?? DEFAULT_SITE_TIME_ZONES,
+    groupRow: null,
+    columnKeys: null,
+    blockState: createBlockState(),
+    rowsSeen: 0,
+    records: [],
+    errors: [],
+    totalRows: 0,
+  };
+}
+
+/**
+ * Feeds the next rows of the file into a parse session
+ */
+function processRows(session: ParseSession, rows: string[][]): void {
+  rows.forEach(cells => {
+    session.rowsSeen++;
+
+    // Locate the column name row, optionally preceded by a group row
+    if (!session.columnKeys) {
+      if (session.rowsSeen === 1 && isGroupHeaderRow(cells)) {
+        session.groupRow = cells;
+      } else {
+        session.columnKeys = resolveColumnKeys(cells, session.groupRow);
+      }
+      return;
+    }
+
+    const rowIndex = session.rowsSeen; // 1-based line number in the file
+    session.totalRows++;
+
+    const row = mapRowToRaw(cells, session.columnKeys);
+    const filledRow = fillDownBlockFields(row, session.blockState, session.timeZones);
+    const parseResult = parseRow(filledRow, rowIndex, session.profile, {
+      timeZone: session.blockState.timeZone,
+      ambiguous: session.blockState.afterFallBack ? 'later' : 'earlier',
+    });
+
+    if (parseResult.record) {
+      session.records.push(parseResult.record);
+    }
+
+    session.errors.push(...parseResult.errors);
+  });
+}
+
+/**
+ * Records Papa Parse errors, offsetting rows reported relative to a chunk
+ */
+function addPapaErrors(session: ParseSession, errors: Papa.ParseError[], rowOffset: number = 0): void {
+  errors.forEach(error => {
+    session.errors.push({
+      row: error.row !== undefined ? rowOffset + error.row + 1 : 0,
+      field: 'parsing',
+      value: '',
+      message: error.message,
+      type: 'format',
+      severity: 'error',
+    });
+  });
+}
+
+/**
+ * Builds the final result of a parse session
+ */
+function toParseResult(session: ParseSession): ParseResult {
+  return {
+    data: session.records,
+    errors: session.errors,
+    totalRows: session.totalRows,
+    successfulRows: session.records.length,
   };
+}
 
-  return { record, errors };
+/**
+ * Builds a result for input that could not be read at all
+ */
+function fileErrorResult(message: string, value: string = ''): ParseResult {
+  return {
+    data: [],
+    errors: [{
+      row: 0,
+      field: 'file',
+      value,
+      message,
+      type: 'format',
+      severity: 'error',
+    }],
+    totalRows: 0,
+    successfulRows: 0,
+  };
 }
 
 /**
  * Parses CSV content and returns structured data
  */
-export function parseCSV(csvContent: string): Promise<ParseResult> {
+export function parseCSV(csvContent: string, options: CSVParseOptions = {}): Promise<ParseResult> {
+  const session = createParseSession(options);
+
   return new Promise((resolve) => {
-    const allErrors: ParseError[] = [];
-    const records: InverterRecord[] = [];
-    let totalRows = 0;
+    Papa.parse<string[]>(csvContent, {
+      ...CSV_PARSE_CONFIG,
+      complete: (results: Papa.ParseResult<string[]>) => {
+        processRows(session, results.data);
+        addPapaErrors(session, results.errors);
+        resolve(toParseResult(session));
+      },
+      error: (error: Error) => {
+        resolve(fileErrorResult(error.message));
+      },
+    });
+  });
+}
+
+/**
+ * Options for streaming a large CSV file through the parser
+ */
+export interface CSVStreamOptions extends CSVParseOptions {
+  /** Called after each chunk with the progress so far */
+  onProgress?: (progress: ParseProgress) => void;
+  /** Aborts the parse; the promise then rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Size of each chunk read from the input, in bytes */
+  chunkSize?: number;
+}
+
+/**
+ * Default chunk size for streaming parses (1 MB keeps progress updates frequent)
+ */
+export const CSV_STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Creates the error a streaming parse rejects with when it is cancelled
+ */
+export function createParseAbortError(): Error {
+  const error = new Error('CSV parsing was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
 
-    Papa.parse(csvContent, {
+/**
+ * Checks whether an error came from a cancelled parse
+ */
+export function isParseAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Parses a file or string chunk by chunk, reporting progress as it goes
+ *
+ * Rows are processed as each chunk arrives, so only the current chunk is held
+ * as text. Resolves with the same ParseResult as `parseCSV`.
+ */
+export function parseCSVStream(input: File | string, options: CSVStreamOptions = {}): Promise<ParseResult> {
+  const { onProgress, signal, chunkSize = CSV_STREAM_CHUNK_SIZE } = options;
+  const session = createParseSession(options);
+  const totalBytes = typeof input === 'string' ? input.length : input.size;
+  let warningCount = 0;
+
+  const reportProgress = (bytesRead: number) => {
+    const errorCount = session.errors.length - warningCount;
+    onProgress?.({
+      rowsProcessed: session.totalRows,
+      bytesRead: Math.min(bytesRead, totalBytes),
+      totalBytes,
+      errorCount,
+      warningCount,
+    });
+  };
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createParseAbortError());
+      return;
+    }
+
+    Papa.parse<string[]>(input, {
       ...CSV_PARSE_CONFIG,
-      complete: (results) => {
-        totalRows = results.data.length;
-
-        results.data.forEach((row: any, index: number) => {
-          const rowIndex = index + 2; // +2 because index is 0-based and we skip header
-
-          const parseResult = parseRow(row, rowIndex);
-
-          if (parseResult.record) {
-            records.push(parseResult.record);
-          }
-
-          allErrors.push(...parseResult.errors);
-        });
-
-        // Add any Papa Parse errors
-        if (results.errors && results.errors.length > 0) {
-          results.errors.forEach((error: Papa.ParseError) => {
-            allErrors.push({
-              row: error.row ? error.row + 1 : 0,
-              field: 'parsing',
-              value: '',
-              message: error.message,
-              type: 'format',
-            });
-          });
+      chunkSize,
+      chunk: (results: Papa.ParseResult<string[]>, parser: Papa.Parser) => {
+        if (signal?.aborted) {
+          parser.abort();
+          return;
         }
 
-        resolve({
-          data: records,
-          errors: allErrors,
-          totalRows,
-          successfulRows: records.length,
-        });
+        const errorsBefore = session.errors.length;
+        const rowOffset = session.rowsSeen;
+        processRows(session, results.data);
+        addPapaErrors(session, results.errors, rowOffset);
+        warningCount += session.errors
+          .slice(errorsBefore)
+          .filter(error => error.severity !== 'error').length;
+
+        reportProgress(results.meta.cursor);
+      },
+      complete: () => {
+        if (signal?.aborted) {
+          reject(createParseAbortError());
+          return;
+        }
+        reportProgress(totalBytes);
+        resolve(toParseResult(session));
       },
-      error: (error) => {
-        resolve({
-          data: [],
-          errors: [{
-            row: 0,
-            field: 'file',
-            value: '',
-            message: error.message,
-            type: 'format',
-          }],
-          totalRows: 0,
-          successfulRows: 0,
-        });
+      error: (error: Error) => {
+        resolve(fileErrorResult(error.message, typeof input === 'string' ? '' : input.name));
       },
     });
   });
@@ -308,34 +591,11 @@ export function parseCSV(csvContent: string): Promise<ParseResult> {
 
 /**
  * Parses CSV file and returns structured data
+ *
+ * The file is streamed in chunks rather than read into memory first.
  */
-export function parseCSVFile(file: File): Promise<ParseResult> {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-
-    reader.onload = async (event) => {
-      const content = event.target?.result as string;
-      const result = await parseCSV(content);
-      resolve(result);
-    };
-
-    reader.onerror = () => {
-      resolve({
-        data: [],
-        errors: [{
-          row: 0,
-          field: 'file',
-          value: file.name,
-          message: 'Failed to read file',
-          type: 'format',
-        }],
-        totalRows: 0,
-        successfulRows: 0,
-      });
-    };
-
-    reader.readAsText(file);
-  });
+export function parseCSVFile(file: File, options: CSVStreamOptions = {}): Promise<ParseResult> {
+  return parseCSVStream(file, options);
 }
 
 /**
@@ -355,7 +615,7 @@ export function formatParseErrors(errors: ParseError[]): string {
   Object.entries(errorsByType).forEach(([type, typeErrors]) => {
     message += `\n${type.toUpperCase()} errors (${typeErrors.length}):\n`;
     typeErrors.slice(0, 5).forEach(error => {
-      message += `  Row ${error.row}, ${error.field}: ${error.message}\n`;
+      message += `  Row ${error.row}, ${error.field} [${error.severity}]: ${error.message}\n`;
     });
     if (typeErrors.length > 5) {
       message += `  ... and ${typeErrors.length - 5} more\n`;
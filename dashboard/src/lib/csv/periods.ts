@@ -0,0 +1,172 @@
+/**
+ * Calendar period keys for grouping inverter data
+ *
+ * Keys use wall-clock time in the site's IANA zone, so the same file groups
+ * identically wherever it is viewed. On a fall-back day the repeated hour
+ * gets the UTC offset appended, keeping its two passes in separate buckets.
+ */
+
+import { AggregationInterval, InverterRecord } from '@/types';
+import {
+  formatUtcOffset,
+  getTimeZoneOffsetMinutes,
+  getZonedParts,
+  isRepeatedWallClockHour,
+  ZonedParts,
+} from '@/lib/timezone';
+import { getRecordTimeZone } from '@/lib/record-adapters';
+
+/**
+ * Calendar interval used for grouping and counter resets
+ */
+export type PeriodInterval = AggregationInterval;
+
+/**
+ * Bucket length of the sub-hour intervals, in minutes
+ */
+const MINUTE_BUCKETS: Partial<Record<PeriodInterval, number>> = {
+  minute: 1,
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  hour: 60,
+};
+
+/**
+ * Pads a number to two digits
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Formats the ISO week of a calendar date (e.g. `2025-W39`)
+ *
+ * ISO weeks start on Monday and belong to the year of their Thursday, so the
+ * first days of January can fall in the previous year's last week.
+ */
+function formatIsoWeek(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const weekYear = date.getUTCFullYear();
+  const week = Math.ceil(((date.getTime() - Date.UTC(weekYear, 0, 1)) / 86400000 + 1) / 7);
+  return `${weekYear}-W${pad(week)}`;
+}
+
+/**
+ * Builds a period key from wall-clock parts
+ *
+ * `repeatedOffset` is the UTC offset (minutes) when the hour is repeated by a
+ * fall-back transition, null otherwise.
+ */
+function buildPeriodKey(parts: ZonedParts, interval: PeriodInterval, repeatedOffset: number | null): string {
+  const year = String(parts.year);
+  const month = `${year}-${pad(parts.month)}`;
+  const day = `${month}-${pad(parts.day)}`;
+
+  const bucketMinutes = MINUTE_BUCKETS[interval];
+  if (bucketMinutes) {
+    const minute = pad(Math.floor(parts.minute / bucketMinutes) * bucketMinutes);
+    const key = `${day} ${pad(parts.hour)}:${minute}`;
+    return repeatedOffset !== null ? `${key} ${formatUtcOffset(repeatedOffset)}` : key;
+  }
+
+  switch (interval) {
+    case 'week':
+      return formatIsoWeek(parts.year, parts.month, parts.day);
+    case 'quarter':
+      return `${year}-Q${Math.ceil(parts.month / 3)}`;
+    case 'month':
+      return month;
+    case 'year':
+      return year;
+    case 'day':
+    default:
+      return day;
+  }
+}
+
+/**
+ * Formats the key of the period containing an instant, in a zone
+ * (e.g. `2025-09-28 21:05`, `2025-09-28`, `2025-W39`, `2025-Q3`)
+ *
+ * Sub-hour keys name the start of their bucket, so `15min` groups 21:05
+ * under `21:00`.
+ */
+export function formatPeriodKey(date: Date, interval: PeriodInterval, timeZone: string): string {
+  const repeated = MINUTE_BUCKETS[interval] !== undefined && isRepeatedWallClockHour(date, timeZone);
+  return buildPeriodKey(
+    getZonedParts(date, timeZone),
+    interval,
+    repeated ? getTimeZoneOffsetMinutes(date, timeZone) : null
+  );
+}
+
+/**
+ * Zone offsets only change on quarter-hour boundaries
+ */
+const OFFSET_CACHE_MS = 15 * 60000;
+
+/**
+ * Creates a formatter that gives the same keys as `formatPeriodKey` for
+ * epoch-millisecond times, without an Intl call per time
+ *
+ * Zone offsets are looked up once per quarter hour and cached, which keeps
+ * grouping millions of samples fast. Use a new formatter per operation; the
+ * cache is not bounded.
+ */
+export function createPeriodKeyFormatter(interval: PeriodInterval): (time: number, timeZone: string) => string {
+  const offsets = new Map<string, Map<number, number>>();
+  const hasMinuteBuckets = MINUTE_BUCKETS[interval] !== undefined;
+
+  const offsetAt = (time: number, timeZone: string): number => {
+    let zoneOffsets = offsets.get(timeZone);
+    if (!zoneOffsets) {
+      zoneOffsets = new Map();
+      offsets.set(timeZone, zoneOffsets);
+    }
+    const bucket = Math.floor(time / OFFSET_CACHE_MS);
+    let offset = zoneOffsets.get(bucket);
+    if (offset === undefined) {
+      offset = getTimeZoneOffsetMinutes(new Date(bucket * OFFSET_CACHE_MS), timeZone);
+      zoneOffsets.set(bucket, offset);
+    }
+    return offset;
+  };
+
+  const localHour = (time: number, timeZone: string): number =>
+    new Date(time + offsetAt(time, timeZone) * 60000).getUTCHours();
+
+  return (time, timeZone) => {
+    const offset = offsetAt(time, timeZone);
+    const local = new Date(time + offset * 60000);
+    const parts: ZonedParts = {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: local.getUTCHours(),
+      minute: local.getUTCMinutes(),
+      second: local.getUTCSeconds(),
+    };
+
+    const repeated = hasMinuteBuckets && (
+      localHour(time - 3600000, timeZone) === parts.hour ||
+      localHour(time + 3600000, timeZone) === parts.hour
+    );
+    return buildPeriodKey(parts, interval, repeated ? offset : null);
+  };
+}
+
+/**
+ * Formats the key of the period containing a record, in its site's zone
+ *
+ * Returns null for records without a usable timestamp.
+ */
+export function getRecordPeriodKey(record: InverterRecord, interval: PeriodInterval): string | null {
+  const { datetime } = record.userRecord.timestamp;
+  if (!datetime) return null;
+  const date = new Date(datetime);
+  if (isNaN(date.getTime())) return null;
+  return formatPeriodKey(date, interval, getRecordTimeZone(record));
+}
@@ -0,0 +1,204 @@
+/**
+ * Validation profiles for CarryGreen inverter data
+ *
+ * Built-in profiles cover the regions and battery banks in the fleet. Edited
+ * and custom profiles are persisted in the browser's localStorage.
+ */
+
+import { z } from 'zod';
+import {
+  FieldValidationRule,
+  FieldValidationRuleSchema,
+  ValidationField,
+  ValidationFieldSchema,
+  ValidationProfile,
+  ValidationProfileSchema,
+} from '@/types';
+import { validateWithSchema } from '@/lib/schema-validation';
+import { ValidationRules, toFieldRule } from './validation';
+
+/**
+ * Display metadata for each profile field
+ */
+export const VALIDATION_FIELDS: Record<ValidationField, { label: string; unit: string }> = {
+  pvVoltage: { label: 'PV voltage', unit: 'V' },
+  pvCurrent: { label: 'PV current', unit: 'A' },
+  pvPower: { label: 'PV power', unit: 'W' },
+  energy: { label: 'Energy counters', unit: 'kWh' },
+  batteryVoltage: { label: 'Battery voltage', unit: 'V' },
+  batteryCurrent: { label: 'Battery current', unit: 'A' },
+  batteryTemperature: { label: 'Battery temperature', unit: '°C' },
+  soc: { label: 'State of charge', unit: '%' },
+  acVoltage: { label: 'Inverter / grid voltage', unit: 'V' },
+  acCurrent: { label: 'Inverter / grid current', unit: 'A' },
+  frequency: { label: 'Inverter / grid frequency', unit: 'Hz' },
+};
+
+/**
+ * Creates a rule from nominal, tolerance and hard limits
+ */
+function rule(nominal: number, tolerance: number, hardMin: number, hardMax: number): FieldValidationRule {
+  return { nominal, tolerance, hardMin, hardMax };
+}
+
+/**
+ * Rules shared by every built-in profile for fields that don't vary by site
+ */
+const COMMON_RULES = {
+  pvVoltage: toFieldRule(ValidationRules.voltage),
+  pvCurrent: toFieldRule(ValidationRules.current),
+  pvPower: toFieldRule(ValidationRules.power),
+  energy: toFieldRule(ValidationRules.energy),
+  batteryTemperature: toFieldRule(ValidationRules.temperature),
+  soc: toFieldRule(ValidationRules.soc),
+};
+
+/**
+ * Profile equivalent to the original fixed ValidationRules
+ */
+export const DEFAULT_VALIDATION_PROFILE: ValidationProfile = {
+  id: 'default',
+  name: 'Default (wide ranges)',
+  description: 'Generic ranges that accept any region or battery bank',
+  builtIn: true,
+  rules: {
+    ...COMMON_RULES,
+    batteryVoltage: toFieldRule(ValidationRules.voltage),
+    batteryCurrent: toFieldRule(ValidationRules.current),
+    acVoltage: toFieldRule(ValidationRules.voltage),
+    acCurrent: toFieldRule(ValidationRules.current),
+    frequency: toFieldRule(ValidationRules.frequency),
+  },
+};
+
+/**
+ * Profiles that ship with the app
+ */
+export const BUILT_IN_VALIDATION_PROFILES: readonly ValidationProfile[] = [
+  DEFAULT_VALIDATION_PROFILE,
+  {
+    id: 'us-split-phase-60hz',
+    name: 'US split-phase 60 Hz',
+    description: '120/240 V split-phase service with a 48 V battery bank',
+    builtIn: true,
+    rules: {
+      ...COMMON_RULES,
+      batteryVoltage: rule(51.2, 8, 0, 80),
+      batteryCurrent: rule(0, 150, -1000, 1000),
+      acVoltage: rule(240, 24, 0, 500),
+      acCurrent: rule(0, 50, -1000, 1000),
+      frequency: rule(60, 1, 0, 100),
+    },
+  },
+  {
+    id: 'us-208v-60hz-24v',
+    name: 'US 208 V 60 Hz (24 V battery)',
+    description: '208 V three-phase commercial service with a 24 V battery bank',
+    builtIn: true,
+    rules: {
+      ...COMMON_RULES,
+      batteryVoltage: rule(25.6, 4.5, 0, 40),
+      batteryCurrent: rule(0, 100, -1000, 1000),
+      acVoltage: rule(208, 21, 0, 500),
+      acCurrent: rule(0, 50, -1000, 1000),
+      frequency: rule(60, 1, 0, 100),
+    },
+  },
+  {
+    id: 'eu-230v-50hz',
+    name: 'EU 230 V 50 Hz',
+    description: '230 V single-phase service with a 48 V battery bank',
+    builtIn: true,
+    rules: {
+      ...COMMON_RULES,
+      batteryVoltage: rule(51.2, 8, 0, 80),
+      batteryCurrent: rule(0, 150, -1000, 1000),
+      acVoltage: rule(230, 23, 0, 500),
+      acCurrent: rule(0, 50, -1000, 1000),
+      frequency: rule(50, 1, 0, 100),
+    },
+  },
+];
+
+/**
+ * Shape of saved profiles; rules may lack fields added since they were saved
+ */
+const SavedProfilesSchema = z.array(
+  ValidationProfileSchema.extend({
+    rules: z.partialRecord(ValidationFieldSchema, FieldValidationRuleSchema),
+  })
+).min(1);
+
+const PROFILES_STORAGE_KEY = 'carrygreen.validationProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'carrygreen.activeValidationProfile';
+
+/**
+ * Returns localStorage when running in a browser
+ */
+function getStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+
+/**
+ * Loads saved profiles, falling back to the built-ins
+ */
+export function loadValidationProfiles(): ValidationProfile[] {
+  const storage = getStorage();
+  const saved = storage?.getItem(PROFILES_STORAGE_KEY);
+  if (!saved) return [...BUILT_IN_VALIDATION_PROFILES];
+
+  try {
+    const { data: profiles, errors } = validateWithSchema(SavedProfilesSchema, JSON.parse(saved));
+    if (!profiles) {
+      console.warn('Ignoring invalid saved validation profiles:', errors);
+      return [...BUILT_IN_VALIDATION_PROFILES];
+    }
+
+    // Fill in fields added since the profile was saved
+    return profiles.map(profile => ({
+      ...profile,
+      rules: { ...DEFAULT_VALIDATION_PROFILE.rules, ...profile.rules },
+    }));
+  } catch (error) {
+    console.error('Failed to load validation profiles:', error);
+    return [...BUILT_IN_VALIDATION_PROFILES];
+  }
+}
+
+/**
+ * Persists the given profiles
+ */
+export function saveValidationProfiles(profiles: ValidationProfile[]): void {
+  getStorage()?.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Removes saved profiles so the built-ins are used again
+ */
+export function resetValidationProfiles(): void {
+  getStorage()?.removeItem(PROFILES_STORAGE_KEY);
+}
+
+/**
+ * Returns the ID of the profile selected in Settings
+ */
+export function getActiveProfileId(): string {
+  return getStorage()?.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_VALIDATION_PROFILE.id;
+}
+
+/**
+ * Selects the profile used when parsing
+ */
+export function setActiveProfileId(id: string): void {
+  getStorage()?.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+}
+
+/**
+ * Looks up a profile by ID, falling back to the default profile
+ */
+export function getValidationProfile(
+  id: string,
+  profiles: ValidationProfile[] = loadValidationProfiles()
+): ValidationProfile {
+  return profiles.find(profile => profile.id === id) ?? DEFAULT_VALIDATION_PROFILE;
+}
@@ -0,0 +1,257 @@
+/**
+ * Data quality analysis for imported inverter data
+ *
+ * Loggers sample every 1-2 minutes with occasional multi-hour holes, and
+ * exports sometimes repeat or reorder rows. The analyzer infers each device's
+ * sampling interval and reports gaps, duplicates, out-of-order timestamps and
+ * how complete the series is.
+ */
+
+import { InverterRecord, ParseResult } from '@/types';
+import { getRecordTimeZone } from '@/lib/record-adapters';
+
+/**
+ * Options for the data quality analysis
+ */
+export interface DataQualityOptions {
+  /** A gap is reported when samples are more than this many nominal intervals apart */
+  gapThreshold?: number;
+}
+
+/**
+ * A stretch with no samples
+ */
+export interface SamplingGap {
+  /** ISO datetime of the last sample before the gap */
+  start: string;
+  /** ISO datetime of the first sample after the gap */
+  end: string;
+  durationMinutes: number;
+  /** Samples expected in the gap at the nominal interval */
+  missingSamples: number;
+}
+
+/**
+ * A timestamp that repeats or goes back in time
+ */
+export interface TimestampIssue {
+  type: 'duplicate' | 'out-of-order';
+  /** Position of the record in the parse result */
+  recordIndex: number;
+  /** ISO datetime of the offending record */
+  timestamp: string;
+  /** ISO datetime of the device's previous record */
+  previous: string;
+}
+
+/**
+ * Data quality of a single device
+ */
+export interface DeviceQualityReport {
+  deviceId: string;
+  name: string;
+  /** IANA zone of the device's site */
+  timeZone: string;
+  records: number;
+  /** Distinct timestamps */
+  uniqueTimestamps: number;
+  firstTimestamp: string | null;
+  lastTimestamp: string | null;
+  /** Inferred sampling interval (median spacing), null with fewer than two samples */
+  nominalIntervalMinutes: number | null;
+  /** Minutes between the first and last timestamp */
+  spanMinutes: number;
+  /** Minutes of the span not inside a gap */
+  coveredMinutes: number;
+  /**
+   * Covered share of the span (0-100). Measured in time rather than sample
+   * count, so irregular 1-2 minute sampling does not count as missing data.
+   */
+  completeness: number;
+  gaps: SamplingGap[];
+  duplicates: TimestampIssue[];
+  outOfOrder: TimestampIssue[];
+}
+
+/**
+ * Data quality of a whole parse result
+ */
+export interface DataQualityReport {
+  /** ISO datetime the report was generated */
+  generatedAt: string;
+  totalRecords: number;
+  /** Records without a usable timestamp, which cannot be analyzed */
+  recordsWithoutTimestamp: number;
+  gapThreshold: number;
+  devices: DeviceQualityReport[];
+  /** Completeness across all devices, weighted by span (0-100) */
+  overallCompleteness: number;
+}
+
+/**
+ * Default gap threshold, in nominal intervals
+ */
+export const DEFAULT_GAP_THRESHOLD = 3;
+
+const MINUTE_MS = 60000;
+
+/**
+ * Returns the median of a non-empty list
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Analyzes one device's records, given in file order
+ */
+function analyzeDevice(
+  deviceId: string,
+  entries: Array<{ record: InverterRecord; index: number; time: number }>,
+  gapThreshold: number
+): DeviceQualityReport {
+  const duplicates: TimestampIssue[] = [];
+  const outOfOrder: TimestampIssue[] = [];
+  const seen = new Set<number>();
+
+  entries.forEach((entry, position) => {
+    if (position === 0) {
+      seen.add(entry.time);
+      return;
+    }
+    const previous = entries[position - 1];
+    const issue = {
+      recordIndex: entry.index,
+      timestamp: new Date(entry.time).toISOString(),
+      previous: new Date(previous.time).toISOString(),
+    };
+
+    if (seen.has(entry.time)) {
+      duplicates.push({ type: 'duplicate', ...issue });
+    } else if (entry.time < previous.time) {
+      outOfOrder.push({ type: 'out-of-order', ...issue });
+    }
+    seen.add(entry.time);
+  });
+
+  const times = Array.from(seen).sort((a, b) => a - b);
+  const spacings = times.slice(1).map((time, i) => time - times[i]);
+  const nominalMs = spacings.length > 0 ? median(spacings) : null;
+
+  const gaps: SamplingGap[] = [];
+  if (nominalMs) {
+    spacings.forEach((spacing, i) => {
+      if (spacing > nominalMs * gapThreshold) {
+        gaps.push({
+          start: new Date(times[i]).toISOString(),
+          end: new Date(times[i + 1]).toISOString(),
+          durationMinutes: spacing / MINUTE_MS,
+          missingSamples: Math.round(spacing / nominalMs) - 1,
+        });
+      }
+    });
+  }
+
+  const spanMs = times.length > 1 ? times[times.length - 1] - times[0] : 0;
+  const gapMs = gaps.reduce((sum, gap) => sum + gap.durationMinutes * MINUTE_MS, 0);
+
+  return {
+    deviceId,
+    name: entries[0]?.record.userRecord.name ?? '',
+    timeZone: entries[0] ? getRecordTimeZone(entries[0].record) : 'UTC',
+    records: entries.length,
+    uniqueTimestamps: times.length,
+    firstTimestamp: times.length > 0 ? new Date(times[0]).toISOString() : null,
+    lastTimestamp: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : null,
+    nominalIntervalMinutes: nominalMs ? nominalMs / MINUTE_MS : null,
+    spanMinutes: spanMs / MINUTE_MS,
+    coveredMinutes: (spanMs - gapMs) / MINUTE_MS,
+    completeness: spanMs > 0 ? ((spanMs - gapMs) / spanMs) * 100 : 100,
+    gaps,
+    duplicates,
+    outOfOrder,
+  };
+}
+
+/**
+ * Analyzes sampling regularity and completeness of a parse result, per device
+ */
+export function analyzeDataQuality(
+  result: ParseResult,
+  options: DataQualityOptions = {}
+): DataQualityReport {
+  const gapThreshold = options.gapThreshold ?? DEFAULT_GAP_THRESHOLD;
+  const byDevice = new Map<string, Array<{ record: InverterRecord; index: number; time: number }>>();
+  let recordsWithoutTimestamp = 0;
+
+  result.data.forEach((record, index) => {
+    const time = record.userRecord.timestamp.datetime
+      ? new Date(record.userRecord.timestamp.datetime).getTime()
+      : NaN;
+    if (isNaN(time)) {
+      recordsWithoutTimestamp++;
+      return;
+    }
+
+    const deviceId = record.userRecord.id;
+    if (!byDevice.has(deviceId)) byDevice.set(deviceId, []);
+    byDevice.get(deviceId)!.push({ record, index, time });
+  });
+
+  const devices = Array.from(byDevice.entries()).map(([deviceId, entries]) =>
+    analyzeDevice(deviceId, entries, gapThreshold)
+  );
+
+  const span = devices.reduce((sum, device) => sum + device.spanMinutes, 0);
+  const covered = devices.reduce((sum, device) => sum + device.coveredMinutes, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalRecords: result.data.length,
+    recordsWithoutTimestamp,
+    gapThreshold,
+    devices,
+    overallCompleteness: span > 0 ? (covered / span) * 100 : devices.length > 0 ? 100 : 0,
+  };
+}
+
+/**
+ * Formats a data quality report as plain text for export
+ */
+export function formatDataQualityReport(report: DataQualityReport): string {
+  const lines = [
+    'CarryGreen Data Quality Report',
+    `Generated: ${report.generatedAt}`,
+    `Records: ${report.totalRecords} (${report.recordsWithoutTimestamp} without timestamp)`,
+    `Overall completeness: ${report.overallCompleteness.toFixed(1)}%`,
+    `Gap threshold: ${report.gapThreshold} × nominal interval`,
+  ];
+
+  report.devices.forEach(device => {
+    lines.push(
+      '',
+      `Device ${device.deviceId}${device.name ? ` (${device.name})` : ''}`,
+      `  Time zone: ${device.timeZone}`,
+      `  Range: ${device.firstTimestamp ?? '-'} to ${device.lastTimestamp ?? '-'}`,
+      `  Records: ${device.records}, unique timestamps: ${device.uniqueTimestamps}`,
+      `  Nominal interval: ${device.nominalIntervalMinutes !== null ? `${device.nominalIntervalMinutes} min` : '-'}`,
+      `  Completeness: ${device.completeness.toFixed(1)}% (${device.coveredMinutes} of ${device.spanMinutes} min covered)`,
+      `  Gaps (${device.gaps.length}):`
+    );
+    device.gaps.forEach(gap => {
+      lines.push(`    ${gap.start} to ${gap.end}: ${gap.durationMinutes} min, ~${gap.missingSamples} samples missing`);
+    });
+    lines.push(`  Duplicate timestamps (${device.duplicates.length}):`);
+    device.duplicates.forEach(issue => {
+      lines.push(`    Record ${issue.recordIndex}: ${issue.timestamp}`);
+    });
+    lines.push(`  Out-of-order timestamps (${device.outOfOrder.length}):`);
+    device.outOfOrder.forEach(issue => {
+      lines.push(`    Record ${issue.recordIndex}: ${issue.timestamp} after ${issue.previous}`);
+    });
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+/**
+ * Site time zones for CarryGreen devices
+ *
+ * The zone of each device is persisted in the browser's localStorage and
+ * edited on the Settings page, like validation profiles.
+ */
+
+import { SiteTimeZoneConfig, SiteTimeZoneConfigSchema, TimeDisplayMode, TimeDisplayModeSchema } from '@/types';
+import { validateWithSchema } from '@/lib/schema-validation';
+import { isValidTimeZone } from '@/lib/timezone';
+
+/**
+ * Used until a site zone is configured. UTC keeps results identical for every
+ * viewer; the times in the file are shown exactly as written.
+ */
+export const DEFAULT_SITE_TIME_ZONES: SiteTimeZoneConfig = {
+  defaultTimeZone: 'UTC',
+  devices: {},
+};
+
+const SITE_TIME_ZONES_STORAGE_KEY = 'carrygreen.siteTimeZones';
+const TIME_DISPLAY_STORAGE_KEY = 'carrygreen.timeDisplay';
+
+/**
+ * Returns localStorage when running in a browser
+ */
+function getStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+
+/**
+ * Returns the zone of a device's site
+ */
+export function getSiteTimeZone(
+  deviceId: string,
+  config: SiteTimeZoneConfig = DEFAULT_SITE_TIME_ZONES
+): string {
+  const timeZone = config.devices[deviceId] || config.defaultTimeZone;
+  return isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Loads the saved site zones, falling back to the defaults
+ */
+export function loadSiteTimeZones(): SiteTimeZoneConfig {
+  const saved = getStorage()?.getItem(SITE_TIME_ZONES_STORAGE_KEY);
+  if (!saved) return DEFAULT_SITE_TIME_ZONES;
+
+  try {
+    const { data, errors } = validateWithSchema(SiteTimeZoneConfigSchema, JSON.parse(saved));
+    if (!data) {
+      console.warn('Ignoring invalid saved site time zones:', errors);
+      return DEFAULT_SITE_TIME_ZONES;
+    }
+    return data;
+  } catch (error) {
+    console.error('Failed to load site time zones:', error);
+    return DEFAULT_SITE_TIME_ZONES;
+  }
+}
+
+/**
+ * Persists the site zones
+ */
+export function saveSiteTimeZones(config: SiteTimeZoneConfig): void {
+  getStorage()?.setItem(SITE_TIME_ZONES_STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Returns whether times are shown in site or viewer time
+ */
+export function getTimeDisplayMode(): TimeDisplayMode {
+  const saved = getStorage()?.getItem(TIME_DISPLAY_STORAGE_KEY);
+  const parsed = TimeDisplayModeSchema.safeParse(saved);
+  return parsed.success ? parsed.data : 'site';
+}
+
+/**
+ * Persists whether times are shown in site or viewer time
+ */
+export function setTimeDisplayMode(mode: TimeDisplayMode): void {
+  getStorage()?.setItem(TIME_DISPLAY_STORAGE_KEY, mode);
+}
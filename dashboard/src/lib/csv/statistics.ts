@@ -0,0 +1,429 @@
+/**
+ * Dataset statistics for CarryGreen inverter data
+ *
+ * Statistics are given for the whole set and for each device. Shares of time
+ * (SOC bands, status codes, grid and inverter availability) weight every
+ * sample by the time until the device's next sample, so loggers sampling
+ * every minute and every two minutes count alike. Intervals longer than
+ * `DEFAULT_MAX_GAP_MINUTES` are gaps and count towards nothing.
+ */
+
+import { FieldPath, InverterRecord } from '@/types';
+import { DEFAULT_MAX_GAP_MINUTES, getDateRange, percentileOfSorted } from './transformations';
+import { CounterEvent, computeCounterEnergy, DEFAULT_ENERGY_COUNTER, ENERGY_COUNTERS, EnergyCounterField } from './counters';
+import {
+  asColumnarRecords,
+  ColumnarRecords,
+  filterColumnarRecords,
+  getColumnValue,
+  summarizeColumn,
+} from './columnar';
+
+/**
+ * Distribution of a set of values
+ *
+ * `stddev` is the population standard deviation; percentiles interpolate
+ * between the closest ranks. Everything but `count` is null without values.
+ */
+export interface DistributionSummary {
+  count: number;
+  mean: number | null;
+  stddev: number | null;
+  min: number | null;
+  max: number | null;
+  p5: number | null;
+  p50: number | null;
+  p95: number | null;
+}
+
+/**
+ * Time spent in one state (an SOC band, a status code, ...)
+ */
+export interface TimeShare {
+  key: string;
+  minutes: number;
+  /** Fraction (0-1) of the time the state was known */
+  share: number;
+}
+
+/**
+ * A range of battery state of charge, from `min` (inclusive) to `max`
+ */
+export interface SocBand {
+  label: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * A PV power reading with where and when it was taken
+ */
+export interface PeakReading {
+  value: number;
+  deviceId: string;
+  /** ISO datetime, null when the record had no timestamp */
+  datetime: string | null;
+}
+
+/**
+ * Statistics of a set of records
+ */
+export interface StatisticsSummary {
+  totalRecords: number;
+  dateRange: { start: string | null; end: string | null };
+  /** Minutes covered by samples, excluding gaps */
+  coveredMinutes: number;
+  power: {
+    max: number | null;
+    average: number | null;
+    totalEnergy: number;
+    /** Distribution of PV power while generating (readings above 0) */
+    distribution: DistributionSummary;
+    /** Highest PV power reading, the earliest one on ties */
+    peak: PeakReading | null;
+  };
+  energy: {
+    counter: EnergyCounterField;
+    totalKWh: number;
+    byDevice: Record<string, number>;
+    byDay: Record<string, number>;
+    byMonth: Record<string, number>;
+    resets: number;
+    anomalies: CounterEvent[];
+  };
+  /** Distribution of the energy generated per day (kWh) */
+  dailyGeneration: DistributionSummary;
+  battery: {
+    averageSOC: number | null;
+    minSOC: number | null;
+    maxSOC: number | null;
+    averageTemp: number | null;
+    soc: DistributionSummary;
+    temperature: DistributionSummary;
+    /** Time in each of `SOC_BANDS`, in band order */
+    socBands: TimeShare[];
+  };
+  blackout: {
+    reportedRecords: number;
+    averageRatio: number | null;
+    maxRatio: number | null;
+  };
+  /** Time per status code (hex), longest first */
+  statusCodes: TimeShare[];
+  /** Fraction (0-1) of the time with a known state that each source was online */
+  availability: {
+    grid: number | null;
+    inverter: number | null;
+  };
+}
+
+/**
+ * Statistics of a dataset, overall and per device
+ */
+export interface DatasetStatistics extends StatisticsSummary {
+  devices: string[];
+  byDevice: Record<string, StatisticsSummary>;
+}
+
+/**
+ * SOC bands time is reported for, matching the battery gauge's thresholds
+ */
+export const SOC_BANDS: SocBand[] = [
+  { label: 'Critical', min: 0, max: 20 },
+  { label: 'Low', min: 20, max: 40 },
+  { label: 'Normal', min: 40, max: 95 },
+  { label: 'Full', min: 95, max: Infinity },
+];
+
+/**
+ * Summarizes the distribution of a list of values
+ */
+function summarizeDistribution(values: Float64Array): DistributionSummary {
+  if (values.length === 0) {
+    return { count: 0, mean: null, stddev: null, min: null, max: null, p5: null, p50: null, p95: null };
+  }
+
+  const sorted = Float64Array.from(values).sort();
+  let total = 0;
+  sorted.forEach(value => {
+    total += value;
+  });
+  const mean = total / sorted.length;
+  let squares = 0;
+  sorted.forEach(value => {
+    squares += (value - mean) ** 2;
+  });
+
+  return {
+    count: sorted.length,
+    mean,
+    stddev: Math.sqrt(squares / sorted.length),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p5: percentileOfSorted(sorted, 5),
+    p50: percentileOfSorted(sorted, 50),
+    p95: percentileOfSorted(sorted, 95),
+  };
+}
+
+/**
+ * Collects the reported values of a reading column that pass `include`
+ */
+function collectColumn(
+  store: ColumnarRecords,
+  path: FieldPath,
+  include: (value: number) => boolean = () => true
+): Float64Array {
+  const column = store.readings[path];
+  const values = new Float64Array(store.length);
+  let count = 0;
+  for (let i = 0; i < store.length; i++) {
+    const value = column[i];
+    if (!isNaN(value) && include(value)) values[count++] = value;
+  }
+  return values.subarray(0, count);
+}
+
+/**
+ * Returns the milliseconds each row stands for: the time until the device's
+ * next sample, or 0 for the last sample, duplicates and rows before a gap
+ */
+function sampleDurations(store: ColumnarRecords): Float64Array {
+  const maxGapMs = DEFAULT_MAX_GAP_MINUTES * 60000;
+  const durations = new Float64Array(store.length);
+  const order = Array.from({ length: store.length }, (_, i) => i)
+    .filter(i => !isNaN(store.datetime[i]))
+    .sort((a, b) => store.device.codes[a] - store.device.codes[b] || store.datetime[a] - store.datetime[b] || a - b);
+
+  for (let k = 1; k < order.length; k++) {
+    const previous = order[k - 1];
+    const current = order[k];
+    if (store.device.codes[previous] !== store.device.codes[current]) continue;
+    const elapsedMs = store.datetime[current] - store.datetime[previous];
+    if (elapsedMs <= maxGapMs) durations[previous] = elapsedMs;
+  }
+
+  return durations;
+}
+
+/**
+ * Sums the time spent in each state; rows whose state is null are left out
+ */
+function timeByState(
+  store: ColumnarRecords,
+  durations: Float64Array,
+  stateAt: (index: number) => string | null
+): { byState: Map<string, number>; totalMs: number } {
+  const byState = new Map<string, number>();
+  let totalMs = 0;
+
+  for (let i = 0; i < store.length; i++) {
+    const state = stateAt(i);
+    if (state === null || durations[i] === 0) continue;
+    byState.set(state, (byState.get(state) ?? 0) + durations[i]);
+    totalMs += durations[i];
+  }
+
+  return { byState, totalMs };
+}
+
+/**
+ * Converts state times to shares, for the given states in the given order
+ */
+function toTimeShares(states: string[], { byState, totalMs }: ReturnType<typeof timeByState>): TimeShare[] {
+  return states.map(key => {
+    const ms = byState.get(key) ?? 0;
+    return { key, minutes: ms / 60000, share: totalMs > 0 ? ms / totalMs : 0 };
+  });
+}
+
+/**
+ * Fraction of the time with a known state (online or offline) that a source
+ * was online, null when the state was never known
+ */
+function onlineShare(
+  store: ColumnarRecords,
+  durations: Float64Array,
+  column: ColumnarRecords['gridState']
+): number | null {
+  const times = timeByState(store, durations, i => {
+    const state = getColumnValue(column, i);
+    return state === 'unknown' ? null : state;
+  });
+  return times.totalMs > 0 ? (times.byState.get('online') ?? 0) / times.totalMs : null;
+}
+
+/**
+ * Finds the highest PV power reading, the earliest one on ties
+ */
+function findPeakPower(store: ColumnarRecords): PeakReading | null {
+  const column = store.readings['pv.powerW'];
+  let peak = -1;
+
+  for (let i = 0; i < store.length; i++) {
+    const value = column[i];
+    if (isNaN(value)) continue;
+    const isHigher = peak < 0 || value > column[peak];
+    const isEarlierTie = peak >= 0 && value === column[peak] && store.datetime[i] < store.datetime[peak];
+    if (isHigher || isEarlierTie) peak = i;
+  }
+
+  if (peak < 0) return null;
+  const time = store.datetime[peak];
+  return {
+    value: column[peak],
+    deviceId: getColumnValue(store.device, peak),
+    datetime: isNaN(time) ? null : new Date(time).toISOString(),
+  };
+}
+
+/**
+ * Calculates the statistics of one set of rows
+ */
+function summarizeStore(store: ColumnarRecords, energyCounter: EnergyCounterField): StatisticsSummary {
+  const power = summarizeColumn(store, 'pv.powerW', v => v > 0);
+  const batterySOC = summarizeColumn(store, 'battery.soc', v => v >= 0);
+  const batteryTemp = summarizeColumn(store, 'battery.temperature');
+  const blackoutRatios = summarizeColumn(store, 'userRecord.blackout.ratio');
+  const energy = computeCounterEnergy(store, energyCounter, ENERGY_COUNTERS[energyCounter], false);
+
+  const durations = sampleDurations(store);
+  let coveredMs = 0;
+  durations.forEach(duration => {
+    coveredMs += duration;
+  });
+
+  const soc = store.readings['battery.soc'];
+  const socBands = timeByState(store, durations, i => {
+    const value = soc[i];
+    if (isNaN(value) || value < 0) return null;
+    return SOC_BANDS.find(band => value >= band.min && value < band.max)?.label ?? null;
+  });
+  const statusCodes = timeByState(store, durations, i => getColumnValue(store.statusHex, i) || null);
+
+  return {
+    totalRecords: store.length,
+    dateRange: getDateRange(store),
+    coveredMinutes: coveredMs / 60000,
+    power: {
+      max: power.max,
+      average: power.mean,
+      totalEnergy: energy.totalKWh,
+      distribution: summarizeDistribution(collectColumn(store, 'pv.powerW', v => v > 0)),
+      peak: findPeakPower(store),
+    },
+    energy: {
+      counter: energy.field,
+      totalKWh: energy.totalKWh,
+      byDevice: energy.byDevice,
+      byDay: energy.byDay,
+      byMonth: energy.byMonth,
+      resets: energy.events.filter(event => event.type === 'reset').length,
+      anomalies: energy.events.filter(event => event.type !== 'reset'),
+    },
+    dailyGeneration: summarizeDistribution(Float64Array.from(Object.values(energy.byDay))),
+    battery: {
+      averageSOC: batterySOC.mean,
+      minSOC: batterySOC.min,
+      maxSOC: batterySOC.max,
+      averageTemp: batteryTemp.mean,
+      soc: summarizeDistribution(collectColumn(store, 'battery.soc', v => v >= 0)),
+      temperature: summarizeDistribution(collectColumn(store, 'battery.temperature')),
+      socBands: toTimeShares(SOC_BANDS.map(band => band.label), socBands),
+    },
+    blackout: {
+      reportedRecords: blackoutRatios.count,
+      averageRatio: blackoutRatios.mean,
+      maxRatio: blackoutRatios.max,
+    },
+    statusCodes: toTimeShares(
+      Array.from(statusCodes.byState.keys()).sort(
+        (a, b) => statusCodes.byState.get(b)! - statusCodes.byState.get(a)! || a.localeCompare(b)
+      ),
+      statusCodes
+    ),
+    availability: {
+      grid: onlineShare(store, durations, store.gridState),
+      inverter: onlineShare(store, durations, store.inverterState),
+    },
+  };
+}
+
+/**
+ * Calculates statistics for a dataset, overall and per device
+ *
+ * Energy comes from counter deltas per device (see `./counters`), never from
+ * summing the running counters themselves.
+ */
+export function calculateStatistics(
+  records: InverterRecord[] | ColumnarRecords,
+  energyCounter: EnergyCounterField = DEFAULT_ENERGY_COUNTER
+): DatasetStatistics | null {
+  const store = asColumnarRecords(records);
+  if (store.length === 0) return null;
+
+  const devices = store.device.values.filter(Boolean);
+  const byDevice: Record<string, StatisticsSummary> = {};
+  devices.forEach(deviceId => {
+    byDevice[deviceId] = summarizeStore(filterColumnarRecords(store, { deviceIds: [deviceId] }), energyCounter);
+  });
+
+  return {
+    ...summarizeStore(store, energyCounter),
+    devices,
+    byDevice,
+  };
+}
+
+/**
+ * Formats a distribution as `mean ± stddev (P5 / P50 / P95)`
+ */
+function formatDistribution(distribution: DistributionSummary, unit: string, digits = 1): string {
+  if (distribution.count === 0) return '-';
+  const format = (value: number | null) => (value === null ? '-' : value.toFixed(digits));
+  return `${format(distribution.mean)} ± ${format(distribution.stddev)} ${unit}`
+    + ` (P5 ${format(distribution.p5)}, P50 ${format(distribution.p50)}, P95 ${format(distribution.p95)})`;
+}
+
+/**
+ * Formats a fraction as a percentage, `-` when unknown
+ */
+function formatShare(share: number | null): string {
+  return share === null ? '-' : `${(share * 100).toFixed(1)}%`;
+}
+
+/**
+ * Formats the lines of one summary, indented by `indent`
+ */
+function formatSummaryLines(summary: StatisticsSummary, indent: string): string[] {
+  const { power, battery } = summary;
+  const lines = [
+    `Records: ${summary.totalRecords}`,
+    `Range: ${summary.dateRange.start ?? '-'} to ${summary.dateRange.end ?? '-'}`,
+    `Covered time: ${(summary.coveredMinutes / 60).toFixed(1)} h`,
+    `PV power: ${formatDistribution(power.distribution, 'W', 0)}`,
+    `Peak power: ${power.peak ? `${power.peak.value} W at ${power.peak.datetime ?? '-'} (${power.peak.deviceId})` : '-'}`,
+    `Energy: ${summary.energy.totalKWh.toFixed(2)} kWh from ${summary.energy.counter}`
+      + ` (${summary.energy.resets} resets, ${summary.energy.anomalies.length} anomalies)`,
+    `Daily generation: ${formatDistribution(summary.dailyGeneration, 'kWh', 2)} over ${summary.dailyGeneration.count} days`,
+    `Battery SOC: ${formatDistribution(battery.soc, '%')}`,
+    `Battery temperature: ${formatDistribution(battery.temperature, '°C')}`,
+    `Time in SOC bands: ${battery.socBands.map(band => `${band.key} ${formatShare(band.share)}`).join(', ')}`,
+    `Status codes: ${summary.statusCodes.map(code => `${code.key} ${formatShare(code.share)}`).join(', ') || '-'}`,
+    `Grid online: ${formatShare(summary.availability.grid)}, inverter online: ${formatShare(summary.availability.inverter)}`,
+  ];
+  return lines.map(line => `${indent}${line}`);
+}
+
+/**
+ * Formats dataset statistics as plain text for export
+ */
+export function formatStatisticsReport(statistics: DatasetStatistics): string {
+  const lines = ['CarryGreen Dataset Statistics', ...formatSummaryLines(statistics, '')];
+
+  statistics.devices.forEach(deviceId => {
+    lines.push('', `Device ${deviceId}`, ...formatSummaryLines(statistics.byDevice[deviceId], '  '));
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,156 @@
+/**
+ * Status code decoding for CarryGreen inverter data
+ *
+ * The export's `Hex` column is a bit field. Each bit is described by an entry
+ * in the status flag registry, which can be reconfigured per deployment.
+ */
+
+import { SystemStatus } from '@/types';
+
+/**
+ * Severity of a status flag when it is set
+ */
+export type StatusFlagSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Definition of a single bit in the status code
+ */
+export interface StatusFlagDefinition {
+  /** Bit position (0 = least significant) */
+  bit: number;
+  /** Key used in SystemStatus.flags */
+  key: string;
+  /** Display label */
+  label: string;
+  /** Severity when the bit is set */
+  severity: StatusFlagSeverity;
+}
+
+/**
+ * A flag that is set in a decoded status code
+ */
+export interface ActiveStatusFlag extends StatusFlagDefinition {
+  /** Whether the bit is described by the registry */
+  known: boolean;
+}
+
+/**
+ * Default bit assignments, derived from TwinklePower exports
+ * (codes 0x00, 0x01, 0x02, 0x03, 0x05, 0x06 and 0x10)
+ */
+export const DEFAULT_STATUS_FLAGS: readonly StatusFlagDefinition[] = [
+  { bit: 0, key: 'inverterOutput', label: 'Inverter output', severity: 'info' },
+  { bit: 1, key: 'gridPresent', label: 'Grid present', severity: 'info' },
+  { bit: 2, key: 'batteryLow', label: 'Battery low', severity: 'warning' },
+  { bit: 4, key: 'fault', label: 'Fault', severity: 'error' },
+];
+
+let statusFlagRegistry: StatusFlagDefinition[] = [...DEFAULT_STATUS_FLAGS];
+
+/**
+ * Returns the current status flag definitions, ordered by bit
+ */
+export function getStatusFlagDefinitions(): StatusFlagDefinition[] {
+  return [...statusFlagRegistry].sort((a, b) => a.bit - b.bit);
+}
+
+/**
+ * Replaces the status flag definitions
+ */
+export function configureStatusFlags(definitions: StatusFlagDefinition[]): void {
+  statusFlagRegistry = [...definitions];
+}
+
+/**
+ * Adds or replaces the definition for a single bit
+ */
+export function registerStatusFlag(definition: StatusFlagDefinition): void {
+  statusFlagRegistry = [
+    ...statusFlagRegistry.filter(existing => existing.bit !== definition.bit),
+    definition,
+  ];
+}
+
+/**
+ * Restores the default status flag definitions
+ */
+export function resetStatusFlags(): void {
+  statusFlagRegistry = [...DEFAULT_STATUS_FLAGS];
+}
+
+/**
+ * Parses a `0x..` status code into its numeric value
+ */
+export function parseStatusCode(hex: string): number | null {
+  if (!/^0x[0-9A-Fa-f]+$/.test(hex)) return null;
+  return parseInt(hex.slice(2), 16);
+}
+
+/**
+ * Decodes a status code into flags keyed by definition key
+ *
+ * Every registered flag is present (true or false). Set bits without a
+ * definition are reported as `bit<N>: true`.
+ */
+export function decodeStatusFlags(
+  hex: string,
+  definitions: StatusFlagDefinition[] = statusFlagRegistry
+): { [key: string]: boolean } {
+  const code = parseStatusCode(hex);
+  const flags: { [key: string]: boolean } = {};
+  if (code === null) return flags;
+
+  definitions.forEach(definition => {
+    flags[definition.key] = (code & (1 << definition.bit)) !== 0;
+  });
+
+  const knownBits = new Set(definitions.map(definition => definition.bit));
+  for (let bit = 0; bit < 32 && code >>> bit !== 0; bit++) {
+    if (!knownBits.has(bit) && (code & (1 << bit)) !== 0) {
+      flags[`bit${bit}`] = true;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Lists the flags set in a status, with labels and severities for display
+ */
+export function getActiveStatusFlags(
+  status: SystemStatus,
+  definitions: StatusFlagDefinition[] = statusFlagRegistry
+): ActiveStatusFlag[] {
+  const flags = status.flags ?? decodeStatusFlags(status.hex, definitions);
+
+  return Object.entries(flags)
+    .filter(([, isSet]) => isSet)
+    .map(([key]) => {
+      const definition = definitions.find(d => d.key === key);
+      if (definition) return { ...definition, known: true };
+
+      const bit = Number(key.replace(/^bit/, ''));
+      return {
+        bit,
+        key,
+        label: `Unknown bit ${bit}`,
+        severity: 'warning' as const,
+        known: false,
+      };
+    })
+    .sort((a, b) => a.bit - b.bit);
+}
+
+/**
+ * Encodes flags back into a `0x..` status code (inverse of decodeStatusFlags)
+ */
+export function encodeStatusFlags(
+  flags: { [key: string]: boolean },
+  definitions: StatusFlagDefinition[] = statusFlagRegistry
+): string {
+  const code = definitions.reduce(
+    (value, definition) => (flags[definition.key] ? value | (1 << definition.bit) : value),
+    0
+  );
+  return `0x${code.toString(16).toUpperCase().padStart(2, '0')}`;
+}
@@ -0,0 +1,291 @@
+/**
+ * Rolling-window and derivative transforms for inverter time series
+ *
+ * Each transform works on one field of each device's samples in time order.
+ * Windows are measured in minutes rather than samples, since loggers sample
+ * every 1-2 minutes. A gap longer than `maxGapMinutes` splits the series,
+ * and no window, rate or lag reaches across it.
+ */
+
+import { FieldPath, InverterRecord } from '@/types';
+import { getFieldValue } from './fields';
+import { DEFAULT_MAX_GAP_MINUTES } from './transformations';
+
+/**
+ * A transformed value at one sample of a device
+ */
+export interface SeriesPoint {
+  deviceId: string;
+  /** ISO datetime of the sample */
+  datetime: string;
+  /** Index of the source record */
+  recordIndex: number;
+  /** Transformed value, null where it cannot be computed (e.g. right after a gap) */
+  value: number | null;
+}
+
+/**
+ * Options shared by all time series transforms
+ */
+export interface SeriesOptions {
+  /** Longest gap between samples (minutes) treated as continuous */
+  maxGapMinutes?: number;
+}
+
+/**
+ * Options for rolling-window transforms
+ */
+export interface RollingWindowOptions extends SeriesOptions {
+  /** Window length; each window covers (t - windowMinutes, t] */
+  windowMinutes: number;
+  /** Samples a window needs before it yields a value (default 1) */
+  minSamples?: number;
+}
+
+/**
+ * Options for exponential smoothing
+ */
+export interface SmoothingOptions extends SeriesOptions {
+  /** Time after which a sample's weight has halved */
+  halfLifeMinutes: number;
+}
+
+/**
+ * Options for rates of change
+ */
+export interface RateOfChangeOptions extends SeriesOptions {
+  /** Time unit of the rate in minutes: 60 gives units per hour, 1 per minute (default 60) */
+  perMinutes?: number;
+  /**
+   * Compare against the earliest sample in this trailing window instead of
+   * the previous sample, which smooths out sensor noise
+   */
+  windowMinutes?: number;
+}
+
+/**
+ * A reported reading of a field, with its time
+ */
+interface Sample {
+  deviceId: string;
+  time: number;
+  recordIndex: number;
+  value: number;
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Splits a field into per-device runs of samples in time order, breaking the
+ * runs at gaps longer than `maxGapMinutes`
+ *
+ * Unreported readings and records without a timestamp are left out.
+ * Duplicate timestamps keep the first sample.
+ */
+function toRuns(records: InverterRecord[], path: FieldPath, options: SeriesOptions): Sample[][] {
+  const maxGapMs = (options.maxGapMinutes ?? DEFAULT_MAX_GAP_MINUTES) * MINUTE_MS;
+  const byDevice = new Map<string, Sample[]>();
+
+  records.forEach((record, recordIndex) => {
+    const value = getFieldValue(record, path);
+    const { datetime } = record.userRecord.timestamp;
+    const time = datetime ? new Date(datetime).getTime() : NaN;
+    if (value === null || isNaN(time)) return;
+
+    const deviceId = record.userRecord.id;
+    if (!byDevice.has(deviceId)) byDevice.set(deviceId, []);
+    byDevice.get(deviceId)!.push({ deviceId, time, recordIndex, value });
+  });
+
+  const runs: Sample[][] = [];
+  byDevice.forEach(samples => {
+    let run: Sample[] = [];
+    [...samples].sort((a, b) => a.time - b.time).forEach(sample => {
+      const previous = run[run.length - 1];
+      if (previous && sample.time === previous.time) return;
+      if (previous && sample.time - previous.time > maxGapMs) {
+        runs.push(run);
+        run = [];
+      }
+      run.push(sample);
+    });
+    if (run.length > 0) runs.push(run);
+  });
+
+  return runs;
+}
+
+/**
+ * Applies a transform to every run and flattens the results into points
+ */
+function transformRuns(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: SeriesOptions,
+  transform: (run: Sample[]) => Array<number | null>
+): SeriesPoint[] {
+  return toRuns(records, path, options).flatMap(run => {
+    const values = transform(run);
+    return run.map((sample, i) => ({
+      deviceId: sample.deviceId,
+      datetime: new Date(sample.time).toISOString(),
+      recordIndex: sample.recordIndex,
+      value: values[i],
+    }));
+  });
+}
+
+/**
+ * Reduces the trailing window of every sample in a run
+ */
+function rollingWindow(
+  run: Sample[],
+  options: RollingWindowOptions,
+  reduce: (values: number[]) => number
+): Array<number | null> {
+  const windowMs = options.windowMinutes * MINUTE_MS;
+  const minSamples = options.minSamples ?? 1;
+  let start = 0;
+
+  return run.map((sample, i) => {
+    while (run[start].time <= sample.time - windowMs) start++;
+    const values = run.slice(start, i + 1).map(s => s.value);
+    return values.length >= minSamples ? reduce(values) : null;
+  });
+}
+
+/**
+ * Moving average over a trailing time window
+ */
+export function movingAverage(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: RollingWindowOptions
+): SeriesPoint[] {
+  return transformRuns(records, path, options, run =>
+    rollingWindow(run, options, values => values.reduce((sum, val) => sum + val, 0) / values.length)
+  );
+}
+
+/**
+ * Lowest reading over a trailing time window
+ */
+export function rollingMin(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: RollingWindowOptions
+): SeriesPoint[] {
+  return transformRuns(records, path, options, run =>
+    rollingWindow(run, options, values => values.reduce((min, val) => Math.min(min, val)))
+  );
+}
+
+/**
+ * Highest reading over a trailing time window
+ */
+export function rollingMax(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: RollingWindowOptions
+): SeriesPoint[] {
+  return transformRuns(records, path, options, run =>
+    rollingWindow(run, options, values => values.reduce((max, val) => Math.max(max, val)))
+  );
+}
+
+/**
+ * Exponential smoothing with time-based decay
+ *
+ * A sample taken `halfLifeMinutes` after the previous one pulls the smoothed
+ * value halfway towards it, so irregular sampling does not change the
+ * effective smoothing. The smoothing restarts after every gap.
+ */
+export function exponentialSmoothing(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: SmoothingOptions
+): SeriesPoint[] {
+  const halfLifeMs = options.halfLifeMinutes * MINUTE_MS;
+
+  return transformRuns(records, path, options, run => {
+    let smoothed = run[0].value;
+    return run.map((sample, i) => {
+      if (i > 0) {
+        const alpha = 1 - Math.pow(2, -(sample.time - run[i - 1].time) / halfLifeMs);
+        smoothed += alpha * (sample.value - smoothed);
+      }
+      return smoothed;
+    });
+  });
+}
+
+/**
+ * Rate of change of a field (e.g. SOC %/hour, temperature °C/minute)
+ *
+ * The first sample after a gap has no rate, so a reading that jumped while
+ * the logger was offline is not reported as a fast change.
+ */
+export function rateOfChange(
+  records: InverterRecord[],
+  path: FieldPath,
+  options: RateOfChangeOptions = {}
+): SeriesPoint[] {
+  const perMs = (options.perMinutes ?? 60) * MINUTE_MS;
+  const windowMs = options.windowMinutes !== undefined ? options.windowMinutes * MINUTE_MS : null;
+
+  return transformRuns(records, path, options, run => {
+    let start = 0;
+    return run.map((sample, i) => {
+      if (windowMs === null) {
+        start = Math.max(i - 1, 0);
+      } else {
+        while (run[start].time < sample.time - windowMs) start++;
+      }
+      const reference = run[start];
+      if (start === i) return null;
+      return ((sample.value - reference.value) / (sample.time - reference.time)) * perMs;
+    });
+  });
+}
+
+/**
+ * Value of the field `minutes` earlier, from the latest sample at or before
+ * that time, or null if it falls before the start of the run
+ */
+export function lag(
+  records: InverterRecord[],
+  path: FieldPath,
+  minutes: number,
+  options: SeriesOptions = {}
+): SeriesPoint[] {
+  const offsetMs = minutes * MINUTE_MS;
+
+  return transformRuns(records, path, options, run => {
+    let cursor = -1;
+    return run.map(sample => {
+      while (cursor + 1 < run.length && run[cursor + 1].time <= sample.time - offsetMs) cursor++;
+      return cursor >= 0 ? run[cursor].value : null;
+    });
+  });
+}
+
+/**
+ * Value of the field `minutes` later, from the earliest sample at or after
+ * that time, or null if it falls after the end of the run
+ */
+export function lead(
+  records: InverterRecord[],
+  path: FieldPath,
+  minutes: number,
+  options: SeriesOptions = {}
+): SeriesPoint[] {
+  const offsetMs = minutes * MINUTE_MS;
+
+  return transformRuns(records, path, options, run => {
+    let cursor = 0;
+    return run.map(sample => {
+      while (cursor < run.length && run[cursor].time < sample.time + offsetMs) cursor++;
+      return cursor < run.length ? run[cursor].value : null;
+    });
+  });
+}
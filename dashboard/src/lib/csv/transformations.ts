@@ -2,7 +2,33 @@
  * Data transformation utilities for CarryGreen inverter data
  */
 
-import { InverterRecord, AggregatedData, AggregationOptions } from '@/types';
+import {
+  InverterRecord,
+  AggregatedData,
+  AggregatedFieldStats,
+  AggregationField,
+  AggregationInterval,
+  AggregationMethod,
+  AggregationOptions,
+  BlackoutStatus,
+  FieldPath,
+} from '@/types';
+import { createPeriodKeyFormatter, getRecordPeriodKey } from './periods';
+import { FIELD_DEFINITIONS, FIELD_PATHS, getDefaultAggregationMethod, getFieldValue } from './fields';
+import {
+  computeCounterEnergy,
+  computeCounterEnergyByPeriod,
+  DEFAULT_ENERGY_COUNTER,
+  EnergyCounterField,
+} from './counters';
+import { asColumnarRecords, ColumnarRecords, getColumnarTimeZone, isColumnarRecords } from './columnar';
+
+/**
+ * Type guard for readings that were actually reported
+ */
+export function hasValue(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
 
 /**
  * Filters records by date range
@@ -43,93 +69,110 @@ export function getUniqueDeviceIds(records: InverterRecord[]): string[] {
 /**
  * Gets date range from records
  */
-export function getDateRange(records: InverterRecord[]): {
+export function getDateRange(records: InverterRecord[] | ColumnarRecords): {
   start: string | null;
   end: string | null;
 } {
-  if (records.length === 0) return { start: null, end: null };
+  const times = isColumnarRecords(records)
+    ? records.datetime
+    : records.map(record => {
+      const { datetime } = record.userRecord.timestamp;
+      return datetime ? new Date(datetime).getTime() : NaN;
+    });
+  let start = Infinity;
+  let end = -Infinity;
 
-  const dates = records
-    .map(record => record.userRecord.timestamp.datetime)
-    .filter(Boolean)
-    .map(date => new Date(date!))
-    .sort((a, b) => a.getTime() - b.getTime());
+  times.forEach(time => {
+    if (time < start) start = time;
+    if (time > end) end = time;
+  });
 
-  if (dates.length === 0) return { start: null, end: null };
+  if (start === Infinity) return { start: null, end: null };
 
   return {
-    start: dates[0].toISOString(),
-    end: dates[dates.length - 1].toISOString(),
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
   };
 }
 
+/**
+ * Fields aggregated when the options do not name any
+ */
+const DEFAULT_AGGREGATION_FIELDS: AggregationField[] = [
+  'pv.powerW',
+  'battery.voltage',
+  'battery.soc',
+  'inverter.voltage',
+  'grid.voltage',
+  'userRecord.blackout.ratio',
+  'energy',
+];
+
 /**
  * Aggregates data by time interval
+ *
+ * Each field uses its entry in `options.methods`, falling back to
+ * `options.method` and then the field's default (`average` for gauges,
+ * `last` for counters). The `energy` field is the energy (kWh)
+ * measured by the device counters in each period; it is always summed,
+ * whatever the aggregation method. `stats` carries the min/max/count of the
+ * readings behind each value.
+ *
+ * Runs on columnar records (see `./columnar`); record arrays are converted.
  */
 export function aggregateData(
-  records: InverterRecord[],
+  records: InverterRecord[] | ColumnarRecords,
   options: AggregationOptions
 ): AggregatedData[] {
-  if (records.length === 0) return [];
+  const store = asColumnarRecords(records);
+  if (store.length === 0) return [];
 
-  // Group records by time interval
-  const groups = groupByTimeInterval(records, options.interval);
+  // Group rows by time interval
+  const groups = groupRowsByTimeInterval(store, options.interval);
+  const energyByPeriod = computeCounterEnergyByPeriod(store, options.interval);
+  const fieldsToAggregate = options.fields || DEFAULT_AGGREGATION_FIELDS;
 
   // Aggregate each group
-  return Object.entries(groups).map(([period, groupRecords]) => {
-    const values: { [field: string]: number } = {};
-
-    // Default fields to aggregate if not specified
-    const fieldsToAggregate = options.fields || [
-      'powerW' as keyof typeof records[0]['pv'],
-      'voltage' as keyof typeof records[0]['battery'],
-      'soc' as keyof typeof records[0]['battery'],
-      'voltage' as keyof typeof records[0]['inverter'],
-      'voltage' as keyof typeof records[0]['grid'],
-    ];
+  return Array.from(groups.entries()).map(([period, rows]) => {
+    const values: Record<string, number | null> = {};
+    const stats: Record<string, AggregatedFieldStats> = {};
 
     fieldsToAggregate.forEach(field => {
-      const fieldValues = extractFieldValues(groupRecords, field as string);
-      values[field as string] = calculateAggregation(fieldValues, options.method);
+      if (field === 'energy') {
+        const energy = energyByPeriod[period];
+        values.energy = energy ? energy.totalKWh : null;
+        stats.energy = energy
+          ? { min: energy.minKWh, max: energy.maxKWh, count: energy.intervals }
+          : { min: null, max: null, count: 0 };
+        return;
+      }
+      const samples = extractFieldSamples(store, rows, field);
+      const method = options.methods?.[field] ?? options.method ?? getDefaultAggregationMethod(field);
+      values[field] = calculateAggregation(samples, method);
+      stats[field] = calculateFieldStats(samples);
     });
 
     return {
       period,
       values,
-      count: groupRecords.length,
+      stats,
+      count: rows.length,
     };
   });
 }
 
 /**
- * Groups records by time interval
+ * Groups records by time interval, in each record's site time zone
  */
 function groupByTimeInterval(
   records: InverterRecord[],
-  interval: 'minute' | 'hour' | 'day' | 'month'
+  interval: AggregationInterval
 ): Record<string, InverterRecord[]> {
   const groups: Record<string, InverterRecord[]> = {};
 
   records.forEach(record => {
-    if (!record.userRecord.timestamp.datetime) return;
-
-    const date = new Date(record.userRecord.timestamp.datetime);
-    let key: string;
-
-    switch (interval) {
-      case 'minute':
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
-        break;
-      case 'hour':
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ${String(date.getHours()).padStart(2, '0')}:00`;
-        break;
-      case 'day':
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-        break;
-      case 'month':
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        break;
-    }
+    const key = getRecordPeriodKey(record, interval);
+    if (!key) return;
 
     if (!groups[key]) groups[key] = [];
     groups[key].push(record);
@@ -139,79 +182,384 @@ function groupByTimeInterval(
 }
 
 /**
- * Extracts values for a specific field from records
+ * Groups the rows of columnar records by time interval, in each row's site
+ * time zone, keeping periods in order of first appearance
  */
-function extractFieldValues(records: InverterRecord[], fieldPath: string): number[] {
-  return records.map(record => {
-    // Handle nested field paths like 'pv.powerW', 'battery.voltage', etc.
-    const parts = fieldPath.split('.');
-    let value: any = record;
-
-    for (const part of parts) {
-      if (value && typeof value === 'object' && part in value) {
-        value = value[part];
-      } else {
-        // Try direct field access for backward compatibility
-        if (fieldPath === 'powerW') value = record.pv.powerW;
-        else if (fieldPath === 'voltage' && record.battery) value = record.battery.voltage;
-        else if (fieldPath === 'soc') value = record.battery.soc;
-        else return 0;
-        break;
-      }
+function groupRowsByTimeInterval(
+  store: ColumnarRecords,
+  interval: AggregationInterval
+): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  const periodKey = createPeriodKeyFormatter(interval);
+
+  for (let i = 0; i < store.length; i++) {
+    const time = store.datetime[i];
+    if (isNaN(time)) continue;
+
+    const key = periodKey(time, getColumnarTimeZone(store, i));
+    let rows = groups.get(key);
+    if (!rows) {
+      rows = [];
+      groups.set(key, rows);
     }
+    rows.push(i);
+  }
+
+  return groups;
+}
+
+/**
+ * The reported readings of a field in a group of rows, in row order
+ */
+interface FieldSamples {
+  length: number;
+  values: Float64Array;
+  /** Epoch milliseconds */
+  times: Float64Array;
+  /** Device codes (see `ColumnarRecords.device`) */
+  devices: Uint32Array;
+}
+
+/**
+ * Extracts the reported readings of a field from a group of rows
+ */
+function extractFieldSamples(store: ColumnarRecords, rows: number[], path: FieldPath): FieldSamples {
+  const column = store.readings[path];
+  const values = new Float64Array(rows.length);
+  const times = new Float64Array(rows.length);
+  const devices = new Uint32Array(rows.length);
+  let length = 0;
+
+  rows.forEach(row => {
+    // Unreported readings (NaN) are skipped rather than counted as 0
+    const value = column[row];
+    if (isNaN(value)) return;
+    values[length] = value;
+    times[length] = store.datetime[row];
+    devices[length] = store.device.codes[row];
+    length++;
+  });
+
+  return {
+    length,
+    values: values.subarray(0, length),
+    times: times.subarray(0, length),
+    devices: devices.subarray(0, length),
+  };
+}
+
+/**
+ * Returns the min/max/count of a field's readings
+ */
+function calculateFieldStats(samples: FieldSamples): AggregatedFieldStats {
+  if (samples.length === 0) return { min: null, max: null, count: 0 };
+  let min = Infinity;
+  let max = -Infinity;
+  samples.values.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  return { min, max, count: samples.length };
+}
+
+/**
+ * Returns a percentile (0-100) of a non-empty list, interpolating linearly
+ * between the closest ranks
+ */
+function percentile(values: Float64Array, p: number): number {
+  return percentileOfSorted(Float64Array.from(values).sort(), p);
+}
+
+/**
+ * Returns a percentile (0-100) of a non-empty list already sorted ascending,
+ * so several percentiles can share one sort
+ */
+export function percentileOfSorted(sorted: Float64Array, p: number): number {
+  if (isNaN(p) || p < 0 || p > 100) {
+    throw new RangeError(`Percentile must be between 0 and 100, got ${p}`);
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Averages readings weighted by time, per device (trapezoidal rule)
+ *
+ * Pairs further apart than `DEFAULT_MAX_GAP_MINUTES` are not interpolated.
+ * Falls back to the plain average when no pair spans any time.
+ */
+function timeWeightedAverage(samples: FieldSamples): number {
+  const maxGapMs = DEFAULT_MAX_GAP_MINUTES * 60000;
+  const { values, times, devices } = samples;
+  const order = Array.from({ length: samples.length }, (_, i) => i)
+    .sort((a, b) => devices[a] - devices[b] || times[a] - times[b] || a - b);
+
+  let area = 0;
+  let duration = 0;
+  for (let k = 1; k < order.length; k++) {
+    const previous = order[k - 1];
+    const current = order[k];
+    if (devices[previous] !== devices[current]) continue;
+    const elapsedMs = times[current] - times[previous];
+    if (!(elapsedMs > 0) || elapsedMs > maxGapMs) continue;
+    area += ((values[previous] + values[current]) / 2) * elapsedMs;
+    duration += elapsedMs;
+  }
+
+  return duration > 0 ? area / duration : sum(values) / samples.length;
+}
 
-    return typeof value === 'number' ? value : 0;
-  }).filter(val => !isNaN(val));
+/**
+ * Sums a list of numbers
+ */
+function sum(values: Float64Array): number {
+  let total = 0;
+  values.forEach(value => {
+    total += value;
+  });
+  return total;
 }
 
 /**
  * Calculates aggregation based on method
+ *
+ * Returns null when no values were reported in the group (0 for `count`).
+ * `first` and `last` go by timestamp, then row order; `stddev` is the
+ * population standard deviation.
  */
-function calculateAggregation(values: number[], method: 'average' | 'sum' | 'min' | 'max'): number {
-  if (values.length === 0) return 0;
+function calculateAggregation(samples: FieldSamples, method: AggregationMethod): number | null {
+  if (method === 'count') return samples.length;
+  if (samples.length === 0) return null;
+
+  const { values, times } = samples;
 
   switch (method) {
     case 'sum':
-      return values.reduce((sum, val) => sum + val, 0);
+      return sum(values);
     case 'average':
-      return values.reduce((sum, val) => sum + val, 0) / values.length;
+      return sum(values) / values.length;
     case 'min':
-      return Math.min(...values);
+      return values.reduce((min, val) => Math.min(min, val));
     case 'max':
-      return Math.max(...values);
+      return values.reduce((max, val) => Math.max(max, val));
+    case 'median':
+      return percentile(values, 50);
+    case 'stddev': {
+      const mean = sum(values) / values.length;
+      return Math.sqrt(values.reduce((total, val) => total + (val - mean) ** 2, 0) / values.length);
+    }
+    case 'first': {
+      let first = 0;
+      times.forEach((time, i) => {
+        if (time < times[first]) first = i;
+      });
+      return values[first];
+    }
+    case 'last': {
+      let last = 0;
+      times.forEach((time, i) => {
+        if (time >= times[last]) last = i;
+      });
+      return values[last];
+    }
+    case 'timeWeightedAverage':
+      return timeWeightedAverage(samples);
     default:
-      return 0;
+      return percentile(values, Number(method.slice(1)));
   }
 }
 
 /**
- * Calculates basic statistics for a dataset
+ * Power source that can be integrated into energy
  */
-export function calculateStatistics(records: InverterRecord[]) {
-  if (records.length === 0) return null;
+export type PowerSource = 'pv' | 'battery' | 'inverter';
 
-  const powerValues = records.map(r => r.pv.powerW).filter(v => v > 0);
-  const batterySOC = records.map(r => r.battery.soc).filter(v => v >= 0);
-  const batteryTemp = records.map(r => r.battery.temperature);
+/**
+ * Options for integrating power into energy
+ */
+export interface EnergyIntegrationOptions {
+  /** Longest gap between samples (minutes) that is bridged; longer gaps are left out */
+  maxGapMinutes?: number;
+}
 
-  return {
-    totalRecords: records.length,
-    dateRange: getDateRange(records),
-    power: {
-      max: powerValues.length > 0 ? Math.max(...powerValues) : 0,
-      average: powerValues.length > 0 ? powerValues.reduce((a, b) => a + b) / powerValues.length : 0,
-      totalEnergy: records.reduce((sum, r) => sum + r.pv.totalKWh, 0),
-    },
-    battery: {
-      averageSOC: batterySOC.length > 0 ? batterySOC.reduce((a, b) => a + b) / batterySOC.length : 0,
-      minSOC: batterySOC.length > 0 ? Math.min(...batterySOC) : 0,
-      maxSOC: batterySOC.length > 0 ? Math.max(...batterySOC) : 0,
-      averageTemp: batteryTemp.length > 0 ? batteryTemp.reduce((a, b) => a + b) / batteryTemp.length : 0,
-    },
-    devices: getUniqueDeviceIds(records),
-  };
+/**
+ * Energy integrated from instantaneous power for one device and period
+ */
+export interface IntegratedEnergy {
+  period: string;
+  deviceId: string;
+  source: PowerSource;
+  /** Net energy in Wh (battery: positive = charging) */
+  energyWh: number;
+  /** Minutes covered by bridged sample pairs */
+  coveredMinutes: number;
+  /** Minutes skipped because the gap between samples was too long */
+  gapMinutes: number;
+}
+
+/**
+ * Integrated PV energy compared with the device's own counter for one day
+ */
+export interface EnergyDiscrepancy {
+  day: string;
+  deviceId: string;
+  /** PV energy integrated from power readings */
+  integratedWh: number;
+  /** PV energy from counter deltas, null when the counter gave no reading that day */
+  counterWh: number | null;
+  /** integratedWh - counterWh */
+  differenceWh: number | null;
+  /** Difference relative to the counter, null when the counter reads 0 */
+  differenceRatio: number | null;
+  /** Share of the day covered by bridged samples (0-1) */
+  coverage: number;
+}
+
+/**
+ * Default gap bridged by integration; exports sample every 1-2 minutes
+ */
+export const DEFAULT_MAX_GAP_MINUTES = 5;
+
+/**
+ * Returns the instantaneous power of a source in watts, or null if not reported
+ *
+ * PV falls back to V×I when `powerW` is missing. Inverter V×I is apparent
+ * power, as the export has no power factor.
+ */
+export function getSourcePower(record: InverterRecord, source: PowerSource): number | null {
+  switch (source) {
+    case 'pv':
+      if (hasValue(record.pv.powerW)) return record.pv.powerW;
+      return hasValue(record.pv.voltage) && hasValue(record.pv.current)
+        ? record.pv.voltage * record.pv.current
+        : null;
+    case 'battery':
+      return hasValue(record.battery.voltage) && hasValue(record.battery.current)
+        ? record.battery.voltage * record.battery.current
+        : null;
+    case 'inverter':
+      return hasValue(record.inverter.voltage) && hasValue(record.inverter.current)
+        ? record.inverter.voltage * record.inverter.current
+        : null;
+  }
 }
 
+/**
+ * Integrates power into Wh per period and device (trapezoidal rule)
+ *
+ * Samples are bucketed with `groupByTimeInterval`. Each pair of consecutive
+ * samples from a device is credited to the bucket of the later sample, so
+ * pairs straddling a bucket boundary are not lost. Pairs further apart than
+ * `maxGapMinutes` are counted as gaps instead of being interpolated.
+ */
+export function integratePower(
+  records: InverterRecord[],
+  source: PowerSource,
+  interval: AggregationInterval,
+  options: EnergyIntegrationOptions = {}
+): IntegratedEnergy[] {
+  const maxGapMs = (options.maxGapMinutes ?? DEFAULT_MAX_GAP_MINUTES) * 60000;
+  const groups = groupByTimeInterval(records, interval);
+  const lastSample = new Map<string, { time: number; power: number | null }>();
+  const results: IntegratedEnergy[] = [];
+
+  Object.keys(groups).sort().forEach(period => {
+    const byDevice = new Map<string, IntegratedEnergy>();
+    const sorted = [...groups[period]].sort((a, b) =>
+      new Date(a.userRecord.timestamp.datetime!).getTime() - new Date(b.userRecord.timestamp.datetime!).getTime()
+    );
+
+    sorted.forEach(record => {
+      const deviceId = record.userRecord.id;
+      const time = new Date(record.userRecord.timestamp.datetime!).getTime();
+      const power = getSourcePower(record, source);
+      const previous = lastSample.get(deviceId);
+
+      if (!byDevice.has(deviceId)) {
+        byDevice.set(deviceId, { period, deviceId, source, energyWh: 0, coveredMinutes: 0, gapMinutes: 0 });
+      }
+      const energy = byDevice.get(deviceId)!;
+
+      if (previous) {
+        const elapsedMs = time - previous.time;
+        if (elapsedMs > 0) {
+          if (elapsedMs <= maxGapMs && previous.power !== null && power !== null) {
+            energy.energyWh += ((previous.power + power) / 2) * (elapsedMs / 3600000);
+            energy.coveredMinutes += elapsedMs / 60000;
+          } else {
+            energy.gapMinutes += elapsedMs / 60000;
+          }
+        }
+      }
+
+      // Duplicate timestamps keep the first sample
+      if (!previous || time > previous.time) {
+        lastSample.set(deviceId, { time, power });
+      }
+    });
+
+    results.push(...byDevice.values());
+  });
+
+  return results;
+}
+
+/**
+ * Compares integrated PV energy with the device-reported counters, per day
+ *
+ * Large differences on well-covered days point at drifting counters or
+ * sensors on that logger.
+ */
+export function compareIntegratedEnergy(
+  records: InverterRecord[],
+  options: EnergyIntegrationOptions & { counter?: EnergyCounterField } = {}
+): EnergyDiscrepancy[] {
+  const counter = options.counter ?? DEFAULT_ENERGY_COUNTER;
+  const counterByDeviceDay = new Map<string, Record<string, number>>();
+  getUniqueDeviceIds(records).forEach(deviceId => {
+    counterByDeviceDay.set(deviceId, computeCounterEnergy(filterByDeviceId(records, deviceId), counter).byDay);
+  });
+
+  return integratePower(records, 'pv', 'day', options).map(integrated => {
+    const counterKWh = counterByDeviceDay.get(integrated.deviceId)?.[integrated.period];
+    const counterWh = counterKWh === undefined ? null : counterKWh * 1000;
+    const differenceWh = counterWh === null ? null : integrated.energyWh - counterWh;
+
+    return {
+      day: integrated.period,
+      deviceId: integrated.deviceId,
+      integratedWh: integrated.energyWh,
+      counterWh,
+      differenceWh,
+      differenceRatio: differenceWh !== null && counterWh ? differenceWh / counterWh : null,
+      coverage: Math.min(integrated.coveredMinutes / (24 * 60), 1),
+    };
+  });
+}
+
+/**
+ * Formats a blackout status as it appears in the export (`36%` or `-`)
+ */
+export function formatBlackout(blackout: BlackoutStatus | null | undefined): string {
+  if (!blackout || !blackout.reported || blackout.ratio === null) return '-';
+  return `${Math.round(blackout.ratio * 1000) / 10}%`;
+}
+
+/**
+ * Formats a reading for CSV output, leaving unreported values empty
+ */
+function formatCell(value: number | null): string | number {
+  return value === null ? '' : value;
+}
+
+/**
+ * Readings exported by `recordsToCSV` after the identification columns
+ * (blackout is exported among those, as a percentage)
+ */
+const EXPORT_FIELDS = FIELD_PATHS.filter(path => path !== 'userRecord.blackout.ratio');
+
 /**
  * Converts records to CSV format
  */
@@ -219,11 +567,9 @@ export function recordsToCSV(records: InverterRecord[]): string {
   if (records.length === 0) return '';
 
   const headers = [
-    'ID', 'Date', 'Time', 'Name', 'Blackout', 'Inv_Total_kWh',
-    'PV_Voltage', 'PV_Current', 'PV_Power_W', 'PV_Daily_Wh', 'PV_Monthly_Wd', 'PV_Yearly_Wm', 'PV_Total_kWh',
-    'Battery_Voltage', 'Battery_Current', 'Battery_Temp', 'Battery_SOC',
-    'Inverter_Voltage', 'Inverter_Current', 'Inverter_Hz',
-    'Grid_Voltage', 'Grid_Current', 'Grid_Hz', 'Status_Hex'
+    'ID', 'Date', 'Time', 'Name', 'Blackout',
+    ...EXPORT_FIELDS.map(path => FIELD_DEFINITIONS[path].exportHeader),
+    'Status_Hex',
   ];
 
   const rows = records.map(record => [
@@ -231,27 +577,10 @@ export function recordsToCSV(records: InverterRecord[]): string {
     record.userRecord.timestamp.date,
     record.userRecord.timestamp.time,
     record.userRecord.name,
-    record.userRecord.blackout?.toString() || '',
-    record.inverterSupply.totalKWh,
-    record.pv.voltage,
-    record.pv.current,
-    record.pv.powerW,
-    record.pv.dailyWh,
-    record.pv.monthlyWd,
-    record.pv.yearlyWm,
-    record.pv.totalKWh,
-    record.battery.voltage,
-    record.battery.current,
-    record.battery.temperature,
-    record.battery.soc,
-    record.inverter.voltage,
-    record.inverter.current,
-    record.inverter.frequency,
-    record.grid.voltage,
-    record.grid.current,
-    record.grid.frequency,
+    formatBlackout(record.userRecord.blackout),
+    ...EXPORT_FIELDS.map(path => formatCell(getFieldValue(record, path))),
     record.status.hex,
   ]);
 
   return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-}
\ No newline at end of file
+}
@@ -2,62 +2,83 @@
  * Data validation utilities for CarryGreen inverter data
  */
 
-import { ParseError } from '@/types';
+import { ParseError, BlackoutStatus, SourceState, FieldValidationRule } from '@/types';
 
 /**
  * Validation rules for different data types
+ *
+ * Values outside [min, max] are reported as warnings; values outside
+ * [hardMin, hardMax] cannot be physical readings and are reported as errors.
  */
 export const ValidationRules = {
   // Voltage ranges (in volts)
   voltage: {
     min: 0,
     max: 300,
+    hardMin: 0,
+    hardMax: 1000,
   },
   // Current ranges (in amperes)
   current: {
     min: -100,
     max: 100,
+    hardMin: -1000,
+    hardMax: 1000,
   },
   // Power ranges (in watts)
   power: {
     min: 0,
     max: 10000,
+    hardMin: 0,
+    hardMax: 100000,
   },
   // Energy ranges (in kWh)
   energy: {
     min: 0,
     max: 100000,
+    hardMin: 0,
+    hardMax: 10000000,
   },
   // Temperature ranges (in Celsius)
   temperature: {
     min: -40,
     max: 80,
+    hardMin: -60,
+    hardMax: 150,
   },
   // State of Charge (percentage)
   soc: {
     min: 0,
     max: 100,
+    hardMin: 0,
+    hardMax: 100,
   },
   // Frequency ranges (in Hz)
   frequency: {
     min: 45,
     max: 65,
+    hardMin: 0,
+    hardMax: 100,
   },
 } as const;
 
 /**
  * Validates a numeric value against specified range
+ *
+ * Without hard limits, any out-of-range value is an error.
  */
 export function validateNumber(
   value: string,
   fieldName: string,
   min: number,
   max: number,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  // Handle empty values
+  rowIndex: number,
+  hardMin: number = min,
+  hardMax: number = max
+): { value: number | null; error?: ParseError } {
+  // Empty cells and '-' mean the value was not reported, not zero
   if (value === '' || value === '-' || value === null || value === undefined) {
-    return { value: 0 };
+    return { value: null };
   }
 
   const numValue = Number(value);
@@ -65,18 +86,34 @@ export function validateNumber(
   // Check if it's a valid number
   if (isNaN(numValue)) {
     return {
-      value: 0,
+      value: null,
       error: {
         row: rowIndex,
         field: fieldName,
         value: value,
         message: `Invalid number format: "${value}"`,
         type: 'conversion',
+        severity: 'error',
+      },
+    };
+  }
+
+  // Check if it's within the physically possible range
+  if (numValue < hardMin || numValue > hardMax) {
+    return {
+      value: numValue,
+      error: {
+        row: rowIndex,
+        field: fieldName,
+        value: value,
+        message: `Value ${numValue} is outside valid range [${hardMin}, ${hardMax}]`,
+        type: 'validation',
+        severity: 'error',
       },
     };
   }
 
-  // Check if it's within range
+  // Check if it's within the expected range
   if (numValue < min || numValue > max) {
     return {
       value: numValue,
@@ -84,8 +121,9 @@ export function validateNumber(
         row: rowIndex,
         field: fieldName,
         value: value,
-        message: `Value ${numValue} is outside valid range [${min}, ${max}]`,
+        message: `Value ${numValue} is outside expected range [${min}, ${max}]`,
         type: 'validation',
+        severity: 'warning',
       },
     };
   }
@@ -94,37 +132,64 @@ export function validateNumber(
 }
 
 /**
- * Validates voltage values
+ * Converts a min/max range into a nominal ± tolerance rule
  */
-export function validateVoltage(
+export function toFieldRule(range: {
+  min: number;
+  max: number;
+  hardMin: number;
+  hardMax: number;
+}): FieldValidationRule {
+  return {
+    nominal: (range.min + range.max) / 2,
+    tolerance: (range.max - range.min) / 2,
+    hardMin: range.hardMin,
+    hardMax: range.hardMax,
+  };
+}
+
+/**
+ * Validates a numeric value against a field rule
+ */
+export function validateWithRule(
   value: string,
   fieldName: string,
+  rule: FieldValidationRule,
   rowIndex: number
-): { value: number; error?: ParseError } {
+): { value: number | null; error?: ParseError } {
   return validateNumber(
     value,
     fieldName,
-    ValidationRules.voltage.min,
-    ValidationRules.voltage.max,
-    rowIndex
+    rule.nominal - rule.tolerance,
+    rule.nominal + rule.tolerance,
+    rowIndex,
+    rule.hardMin,
+    rule.hardMax
   );
 }
 
+/**
+ * Validates voltage values
+ */
+export function validateVoltage(
+  value: string,
+  fieldName: string,
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.voltage)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
+}
+
 /**
  * Validates current values
  */
 export function validateCurrent(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.current.min,
-    ValidationRules.current.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.current)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
 }
 
 /**
@@ -133,15 +198,10 @@ export function validateCurrent(
 export function validatePower(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.power.min,
-    ValidationRules.power.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.power)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
 }
 
 /**
@@ -150,15 +210,10 @@ export function validatePower(
 export function validateEnergy(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.energy.min,
-    ValidationRules.energy.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.energy)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
 }
 
 /**
@@ -167,15 +222,10 @@ export function validateEnergy(
 export function validateTemperature(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.temperature.min,
-    ValidationRules.temperature.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.temperature)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
 }
 
 /**
@@ -184,15 +234,10 @@ export function validateTemperature(
 export function validateSOC(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.soc.min,
-    ValidationRules.soc.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.soc)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
 }
 
 /**
@@ -201,15 +246,78 @@ export function validateSOC(
 export function validateFrequency(
   value: string,
   fieldName: string,
-  rowIndex: number
-): { value: number; error?: ParseError } {
-  return validateNumber(
-    value,
-    fieldName,
-    ValidationRules.frequency.min,
-    ValidationRules.frequency.max,
-    rowIndex
-  );
+  rowIndex: number,
+  rule: FieldValidationRule = toFieldRule(ValidationRules.frequency)
+): { value: number | null; error?: ParseError } {
+  return validateWithRule(value, fieldName, rule, rowIndex);
+}
+
+/**
+ * Validates an AC source reading (inverter output or grid) as a whole
+ *
+ * 0 V means the source is offline. An offline source is not checked against
+ * the voltage range, and with 0 Hz (or no frequency) not against the
+ * frequency range either.
+ */
+export function validateACSource(
+  voltage: string,
+  current: string,
+  frequency: string,
+  fieldPrefix: string,
+  rowIndex: number,
+  rules: {
+    voltage: FieldValidationRule;
+    current: FieldValidationRule;
+    frequency: FieldValidationRule;
+  } = {
+    voltage: toFieldRule(ValidationRules.voltage),
+    current: toFieldRule(ValidationRules.current),
+    frequency: toFieldRule(ValidationRules.frequency),
+  }
+): {
+  value: {
+    voltage: number | null;
+    current: number | null;
+    frequency: number | null;
+    state: SourceState;
+  };
+  errors: ParseError[];
+} {
+  const errors: ParseError[] = [];
+
+  const voltageName = `${fieldPrefix}_Voltage`;
+  const rawVoltage = validateNumber(voltage, voltageName, -Infinity, Infinity, rowIndex);
+
+  let state: SourceState = 'unknown';
+  if (rawVoltage.value === 0) state = 'offline';
+  else if (rawVoltage.value !== null) state = 'online';
+
+  // An offline source reads 0 V, which is not a deviation from nominal
+  const voltageValidation = state === 'offline'
+    ? rawVoltage
+    : validateVoltage(voltage, voltageName, rowIndex, rules.voltage);
+  const currentValidation = validateCurrent(current, `${fieldPrefix}_Current`, rowIndex, rules.current);
+  if (voltageValidation.error) errors.push(voltageValidation.error);
+  if (currentValidation.error) errors.push(currentValidation.error);
+
+  const frequencyName = `${fieldPrefix}_Frequency`;
+  const rawFrequency = validateNumber(frequency, frequencyName, -Infinity, Infinity, rowIndex);
+  const isOfflineFrequency = state === 'offline' && (rawFrequency.value === 0 || rawFrequency.value === null);
+
+  const frequencyValidation = isOfflineFrequency
+    ? rawFrequency
+    : validateFrequency(frequency, frequencyName, rowIndex, rules.frequency);
+  if (frequencyValidation.error) errors.push(frequencyValidation.error);
+
+  return {
+    value: {
+      voltage: voltageValidation.value,
+      current: currentValidation.value,
+      frequency: frequencyValidation.value,
+      state,
+    },
+    errors,
+  };
 }
 
 /**
@@ -229,6 +337,7 @@ export function validateDate(
         value: value,
         message: 'Date is required',
         type: 'missing',
+        severity: 'error',
       },
     };
   }
@@ -243,6 +352,7 @@ export function validateDate(
         value: value,
         message: 'Date must be in YYYY-MM-DD format',
         type: 'format',
+        severity: 'error',
       },
     };
   }
@@ -258,6 +368,7 @@ export function validateDate(
         value: value,
         message: 'Invalid date',
         type: 'validation',
+        severity: 'error',
       },
     };
   }
@@ -282,6 +393,7 @@ export function validateTime(
         value: value,
         message: 'Time is required',
         type: 'missing',
+        severity: 'error',
       },
     };
   }
@@ -296,6 +408,7 @@ export function validateTime(
         value: value,
         message: 'Time must be in HH:MM format',
         type: 'format',
+        severity: 'error',
       },
     };
   }
@@ -305,32 +418,58 @@ export function validateTime(
 
 /**
  * Validates blackout status
+ *
+ * Accepts `-` or empty (not reported), percentages such as `36%`, and the
+ * legacy boolean forms (true/false, yes/no, 1/0) as 100% / 0%.
  */
 export function validateBlackout(
   value: string,
   fieldName: string,
   rowIndex: number
-): { value: boolean | null; error?: ParseError } {
-  if (value === '' || value === '-') {
-    return { value: null };
+): { value: BlackoutStatus; error?: ParseError } {
+  const notReported: BlackoutStatus = { reported: false, ratio: null };
+  const trimmedValue = value.trim();
+
+  if (trimmedValue === '' || trimmedValue === '-') {
+    return { value: notReported };
+  }
+
+  const percentMatch = /^(\d+(?:\.\d+)?)\s*%$/.exec(trimmedValue);
+  if (percentMatch) {
+    const percent = Number(percentMatch[1]);
+    if (percent < 0 || percent > 100) {
+      return {
+        value: notReported,
+        error: {
+          row: rowIndex,
+          field: fieldName,
+          value: value,
+          message: `Blackout percentage ${percent}% is outside valid range [0%, 100%]`,
+          type: 'validation',
+          severity: 'error',
+        },
+      };
+    }
+    return { value: { reported: true, ratio: percent / 100 } };
   }
 
-  const lowerValue = value.toLowerCase();
+  const lowerValue = trimmedValue.toLowerCase();
   if (lowerValue === 'true' || lowerValue === '1' || lowerValue === 'yes') {
-    return { value: true };
+    return { value: { reported: true, ratio: 1 } };
   }
   if (lowerValue === 'false' || lowerValue === '0' || lowerValue === 'no') {
-    return { value: false };
+    return { value: { reported: true, ratio: 0 } };
   }
 
   return {
-    value: null,
+    value: notReported,
     error: {
       row: rowIndex,
       field: fieldName,
       value: value,
       message: `Invalid blackout status: "${value}"`,
       type: 'validation',
+      severity: 'error',
     },
   };
 }
@@ -357,6 +496,7 @@ export function validateHex(
         value: value,
         message: `Invalid hex format: "${value}"`,
         type: 'format',
+        severity: 'error',
       },
     };
   }
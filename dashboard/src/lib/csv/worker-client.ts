@@ -0,0 +1,92 @@
+/**
+ * Main-thread client for the CSV parse worker
+ */
+
+import { ParseResult, ParseResultSchema } from '@/types';
+import { SchemaValidationError, validateWithSchema } from '@/lib/schema-validation';
+import { CSVStreamOptions, createParseAbortError, parseCSVStream } from './parser';
+import { getStatusFlagDefinitions } from './status-flags';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parse-worker';
+
+/**
+ * Checks whether Web Workers are available (false during SSR)
+ */
+export function canParseInWorker(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+/**
+ * Parses a CSV file in a Web Worker, streaming progress back to the caller
+ *
+ * Aborting the signal terminates the worker and rejects with an `AbortError`.
+ * A result that does not match ParseResultSchema rejects with a
+ * SchemaValidationError.
+ * Falls back to streaming on the main thread where workers are unavailable.
+ */
+export function parseCSVInWorker(file: File, options: CSVStreamOptions = {}): Promise<ParseResult> {
+  if (!canParseInWorker()) {
+    return parseCSVStream(file, options);
+  }
+
+  const { profile, timeZones, onProgress, signal, chunkSize } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createParseAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createParseAbortError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'complete': {
+          cleanup();
+          // The worker is a separate bundle, so check what it sends back
+          const { data, errors } = validateWithSchema(ParseResultSchema, message.result);
+          if (data) {
+            resolve(data);
+          } else {
+            reject(new SchemaValidationError('CSV parse worker returned an invalid result', errors));
+          }
+          break;
+        }
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'CSV parse worker failed'));
+    };
+
+    const request: ParseWorkerRequest = {
+      type: 'parse',
+      file,
+      profile,
+      timeZones,
+      statusFlags: getStatusFlagDefinitions(),
+      chunkSize,
+    };
+    worker.postMessage(request);
+  });
+}
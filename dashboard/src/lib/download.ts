@@ -0,0 +1,15 @@
+/**
+ * Browser file downloads
+ */
+
+/**
+ * Downloads text content as a file
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
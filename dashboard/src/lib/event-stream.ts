@@ -0,0 +1,105 @@
+/**
+ * Server-Sent Events responses speaking the real-time protocol
+ *
+ * Used by the API routes that stream records to the dashboard's `sse`
+ * transport. Each event's data is one protocol message.
+ */
+
+import { ErrorMessage, REALTIME_PROTOCOL_VERSION, ServerMessage } from '@/types';
+
+/**
+ * Milliseconds between the server's heartbeats
+ */
+export const EVENT_STREAM_HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Checks the hello fields a client puts in the query string, returning the
+ * fatal error that rejects it
+ */
+export function checkClientHello(query: URLSearchParams, token?: string): ErrorMessage | null {
+  const protocolVersion = Number(query.get('protocolVersion'));
+  if (protocolVersion !== REALTIME_PROTOCOL_VERSION) {
+    return { type: 'error', code: 'unsupported_version', message: `Protocol version ${protocolVersion} is not supported`, fatal: true };
+  }
+  if (token && query.get('token') !== token) {
+    return { type: 'error', code: 'unauthorized', message: 'Invalid token', fatal: true };
+  }
+  return null;
+}
+
+/**
+ * Creates an event stream response
+ *
+ * The client's hello is checked first; a rejected client gets the error and
+ * the stream ends, as do all clients when `options.error` is given (e.g. the
+ * server is not configured). Otherwise the server's hello is sent, heartbeats start and
+ * `start(send)` runs. The cleanup it returns runs when the client goes away.
+ */
+export function createEventStreamResponse(
+  request: Request,
+  options: { serverId: string; token?: string; error?: ErrorMessage | null },
+  start: (send: (message: ServerMessage) => void) => (() => void) | void
+): Response {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+  let cleanup: (() => void) | null = null;
+
+  // Shared by close(), cancel() and the request's abort, whichever comes first
+  const teardown = (): boolean => {
+    if (closed) return false;
+    closed = true;
+    request.signal.removeEventListener('abort', close);
+    cleanup?.();
+    cleanup = null;
+    return true;
+  };
+  const close = () => {
+    if (teardown()) controller.close();
+  };
+  const send = (message: ServerMessage) => {
+    if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+
+      const error = checkClientHello(new URL(request.url).searchParams, options.token) ?? options.error;
+      if (error) {
+        send(error);
+        close();
+        return;
+      }
+
+      send({
+        type: 'hello',
+        protocolVersion: REALTIME_PROTOCOL_VERSION,
+        serverId: options.serverId,
+        heartbeatInterval: EVENT_STREAM_HEARTBEAT_INTERVAL,
+      });
+      const heartbeatTimer = setInterval(
+        () => send({ type: 'heartbeat', timestamp: new Date().toISOString() }),
+        EVENT_STREAM_HEARTBEAT_INTERVAL
+      );
+      const stop = start(send);
+      cleanup = () => {
+        clearInterval(heartbeatTimer);
+        stop?.();
+      };
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      // The stream is already done, so only our side needs releasing
+      teardown();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
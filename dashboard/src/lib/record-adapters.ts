@@ -0,0 +1,169 @@
+/**
+ * Adapters between record shapes and the canonical InverterRecord
+ *
+ * CSV parsing, the simulator, the realtime service and every widget share
+ * InverterRecord. Anything arriving in another shape is converted here.
+ */
+
+import { InverterRecord, Timestamp } from '@/types';
+import { decodeStatusFlags, encodeStatusFlags } from '@/lib/csv/status-flags';
+import { getViewerTimeZone, getZonedParts } from '@/lib/timezone';
+
+/**
+ * Flat record shape produced by earlier versions of the simulator
+ */
+export interface LegacySimulatorRecord {
+  timestamp: Date | string;
+  pv: {
+    PV_Voltage: number;
+    PV_Current: number;
+    PV_Power_W: number;
+    PV_Daily_Wh: number;
+    PV_Monthly_Wh: number;
+    PV_Yearly_Wh: number;
+  };
+  battery: {
+    Battery_Voltage: number;
+    Battery_Current: number;
+    Battery_Temp: number;
+    Battery_SOC: number;
+  };
+  inverter: {
+    Inverter_Voltage: number;
+    Inverter_Current: number;
+    Inverter_Frequency: number;
+  };
+  grid: {
+    Grid_Voltage: number;
+    Grid_Current: number;
+    Grid_Frequency: number;
+  };
+  system?: {
+    status?: string;
+    alerts?: string[];
+  };
+}
+
+/**
+ * Formats a Date as a record timestamp in a zone (the viewer's by default)
+ */
+export function createTimestampFromDate(date: Date, timeZone: string = getViewerTimeZone()): Timestamp {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const parts = getZonedParts(date, timeZone);
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    datetime: date.toISOString(),
+    timeZone,
+  };
+}
+
+/**
+ * Returns the record's timestamp as a Date, or null if it has none
+ */
+export function getRecordDate(record: InverterRecord): Date | null {
+  const { datetime } = record.userRecord.timestamp;
+  if (!datetime) return null;
+  const date = new Date(datetime);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Returns the zone a record's date and time are expressed in
+ *
+ * Records from before site zones were tracked fall back to the viewer's zone,
+ * which is how they were created.
+ */
+export function getRecordTimeZone(record: InverterRecord): string {
+  return record.userRecord.timestamp.timeZone || getViewerTimeZone();
+}
+
+/**
+ * Checks whether a value has the legacy simulator shape
+ */
+export function isLegacySimulatorRecord(value: unknown): value is LegacySimulatorRecord {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Partial<LegacySimulatorRecord>;
+  return 'timestamp' in record && !!record.pv && 'PV_Power_W' in record.pv;
+}
+
+/**
+ * Converts a legacy simulator record into an InverterRecord
+ */
+export function fromLegacySimulatorRecord(
+  legacy: LegacySimulatorRecord,
+  deviceId: string = 'SIMULATOR',
+  deviceName: string = 'Simulator'
+): InverterRecord {
+  const { pv, battery, inverter, grid } = legacy;
+  const statusHex = encodeStatusFlags({
+    inverterOutput: inverter.Inverter_Voltage > 0,
+    gridPresent: grid.Grid_Voltage > 0,
+  });
+
+  return {
+    userRecord: {
+      id: deviceId,
+      name: deviceName,
+      timestamp: createTimestampFromDate(new Date(legacy.timestamp)),
+      blackout: { reported: false, ratio: null },
+    },
+    inverterSupply: {
+      totalKWh: null,
+    },
+    pv: {
+      voltage: pv.PV_Voltage,
+      current: pv.PV_Current,
+      powerW: pv.PV_Power_W,
+      dailyWh: pv.PV_Daily_Wh,
+      monthlyWd: pv.PV_Monthly_Wh,
+      yearlyWm: pv.PV_Yearly_Wh,
+      totalKWh: null,
+    },
+    battery: {
+      voltage: battery.Battery_Voltage,
+      current: battery.Battery_Current,
+      temperature: battery.Battery_Temp,
+      soc: battery.Battery_SOC,
+    },
+    inverter: {
+      voltage: inverter.Inverter_Voltage,
+      current: inverter.Inverter_Current,
+      frequency: inverter.Inverter_Frequency,
+      state: inverter.Inverter_Voltage > 0 ? 'online' : 'offline',
+    },
+    grid: {
+      voltage: grid.Grid_Voltage,
+      current: grid.Grid_Current,
+      frequency: grid.Grid_Frequency,
+      state: grid.Grid_Voltage > 0 ? 'online' : 'offline',
+    },
+    status: {
+      hex: statusHex,
+      flags: decodeStatusFlags(statusHex),
+    },
+  };
+}
+
+/**
+ * Converts any supported record shape into an InverterRecord
+ */
+export function normalizeRecord(record: InverterRecord | LegacySimulatorRecord): InverterRecord {
+  return isLegacySimulatorRecord(record) ? fromLegacySimulatorRecord(record) : record;
+}
+
+/**
+ * Attaches a device ID known from outside the record, e.g. from an MQTT
+ * topic, to a received record
+ *
+ * The given ID wins over one in the record. Values that are not records are
+ * returned unchanged for validation to reject.
+ */
+export function withDeviceId(value: unknown, deviceId: string): unknown {
+  if (isLegacySimulatorRecord(value)) return fromLegacySimulatorRecord(value, deviceId, deviceId);
+  if (!value || typeof value !== 'object') return value;
+
+  const { userRecord } = value as Partial<InverterRecord>;
+  if (!userRecord || typeof userRecord !== 'object') return value;
+  return { ...value, userRecord: { ...userRecord, id: deviceId } };
+}
@@ -0,0 +1,108 @@
+/**
+ * Runtime validation against the zod schemas in `@/types`
+ *
+ * Data entering the app (CSV rows, realtime messages, parse worker results)
+ * is checked here and schema violations are reported as ParseErrors, the
+ * same shape the CSV validators use.
+ */
+
+import { z } from 'zod';
+import { InverterRecord, InverterRecordSchema, ParseError } from '@/types';
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationResult<T> {
+  /** The validated value, when it matches the schema */
+  data?: T;
+  /** One entry per schema violation */
+  errors: ParseError[];
+}
+
+/**
+ * Thrown when data entering the app does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(message: string, public readonly errors: ParseError[]) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Reads the value at a zod issue path
+ */
+function valueAtPath(input: unknown, path: PropertyKey[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object'
+      ? (current as Record<PropertyKey, unknown>)[key]
+      : undefined),
+    input
+  );
+}
+
+/**
+ * Formats an offending value for ParseError.value
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Converts zod issues into ParseErrors for the given row
+ */
+export function zodIssuesToParseErrors(
+  issues: z.core.$ZodIssue[],
+  input: unknown,
+  row: number = 0
+): ParseError[] {
+  return issues.map(issue => {
+    const value = valueAtPath(input, issue.path);
+    let type: ParseError['type'] = 'validation';
+    if (issue.code === 'invalid_type') {
+      type = value === undefined ? 'missing' : 'format';
+    } else if (issue.code === 'invalid_format' || issue.code === 'invalid_value') {
+      type = 'format';
+    }
+
+    return {
+      row,
+      field: issue.path.length > 0 ? issue.path.map(String).join('.') : 'record',
+      value: describeValue(value),
+      message: issue.message,
+      type,
+      severity: 'error',
+    };
+  });
+}
+
+/**
+ * Validates a value against a schema, returning the typed value or ParseErrors
+ */
+export function validateWithSchema<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+  row: number = 0
+): SchemaValidationResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { data: result.data, errors: [] };
+  }
+  return { errors: zodIssuesToParseErrors(result.error.issues, value, row) };
+}
+
+/**
+ * Validates a single inverter record
+ */
+export function validateInverterRecord(
+  value: unknown,
+  row: number = 0
+): SchemaValidationResult<InverterRecord> {
+  return validateWithSchema(InverterRecordSchema, value, row);
+}
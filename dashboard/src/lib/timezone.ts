@@ -0,0 +1,182 @@
+/**
+ * IANA time zone helpers
+ *
+ * Built on Intl.DateTimeFormat so no time zone database has to be bundled.
+ * Exports record wall-clock time at the site, so converting to and from UTC
+ * must use the site's zone rather than the viewer's, including across DST
+ * transitions.
+ */
+
+/**
+ * Wall-clock date and time in a particular zone
+ */
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Which instant to pick for a wall-clock time that occurs twice (DST fall-back)
+ */
+export type AmbiguousTimeResolution = 'earlier' | 'later';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns a cached formatter that splits dates into numeric parts in a zone
+ */
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the viewer's own IANA zone
+ */
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Returns the wall-clock parts of an instant in a zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Returns a zone's UTC offset at an instant, in minutes (east of UTC positive)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Formats a UTC offset as `+HH:MM`
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a zone to an instant
+ *
+ * Times skipped by a spring-forward transition are moved forward by the
+ * transition (02:30 becomes 03:30). Times repeated by a fall-back transition
+ * resolve to the earlier instant unless `ambiguous` is `later`.
+ * Returns null for malformed input.
+ */
+export function zonedDateTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string,
+  ambiguous: AmbiguousTimeResolution = 'earlier'
+): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!dateMatch || !timeMatch) return null;
+
+  const wallClock = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2])
+  );
+  if (isNaN(wallClock)) return null;
+
+  // The wall-clock time can only have the offset in force a day either side of it
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(wallClock - 86400000), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(wallClock + 86400000), timeZone);
+
+  const candidates = Array.from(new Set([offsetBefore, offsetAfter]))
+    .map(offset => wallClock - offset * 60000)
+    .filter(instant => getTimeZoneOffsetMinutes(new Date(instant), timeZone) * 60000 === wallClock - instant)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    return new Date(ambiguous === 'later' ? candidates[candidates.length - 1] : candidates[0]);
+  }
+
+  // Skipped by a spring-forward transition: apply the offset from before it
+  return new Date(wallClock - offsetBefore * 60000);
+}
+
+/**
+ * Checks whether the wall-clock hour of an instant occurs twice that day
+ * (the repeated hour of a fall-back transition)
+ */
+export function isRepeatedWallClockHour(date: Date, timeZone: string): boolean {
+  const { hour } = getZonedParts(date, timeZone);
+  return getZonedParts(new Date(date.getTime() - 3600000), timeZone).hour === hour ||
+    getZonedParts(new Date(date.getTime() + 3600000), timeZone).hour === hour;
+}
+
+/**
+ * Returns the DST shift (minutes) by which the clocks fall back on a date, or 0
+ */
+export function getFallBackMinutes(date: string, timeZone: string): number {
+  const start = zonedDateTimeToUtc(date, '00:00', timeZone);
+  if (!start) return 0;
+  const startOffset = getTimeZoneOffsetMinutes(start, timeZone);
+  const endOffset = getTimeZoneOffsetMinutes(new Date(start.getTime() + 86400000), timeZone);
+  return Math.max(startOffset - endOffset, 0);
+}
+
+/**
+ * Formats an instant as a date and time in a zone
+ */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(date);
+}
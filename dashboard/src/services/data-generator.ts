@@ -1,4 +1,6 @@
 import { InverterRecord, PVData, BatteryData, InverterData, GridData, SystemStatus } from '@/types/inverter-data'
+import { createTimestampFromDate } from '@/lib/record-adapters'
+import { decodeStatusFlags, encodeStatusFlags } from '@/lib/csv/status-flags'
 
 interface GeneratorConfig {
   baseValues: {
@@ -15,6 +17,10 @@ interface GeneratorConfig {
     gridCurrent: { min: number; max: number }
   }
   timeOfDay: 'morning' | 'noon' | 'afternoon' | 'evening' | 'night'
+  device: {
+    id: string
+    name: string
+  }
 }
 
 export class DataGenerator {
@@ -23,6 +29,7 @@ export class DataGenerator {
   private dailyEnergy = 0
   private monthlyEnergy = 0
   private yearlyEnergy = 0
+  private totalEnergy = 0
 
   constructor() {
     this.config = this.getDefaultConfig()
@@ -44,7 +51,11 @@ export class DataGenerator {
         batteryTemp: { min: 20, max: 35 },
         gridCurrent: { min: 5, max: 15 }
       },
-      timeOfDay: this.getCurrentTimeOfDay()
+      timeOfDay: this.getCurrentTimeOfDay(),
+      device: {
+        id: 'SIM-0001',
+        name: 'Simulator'
+      }
     }
   }
 
@@ -82,7 +93,7 @@ export class DataGenerator {
   }
 
   private generatePVData(): PVData {
-    const { baseValues, variationRanges, timeOfDay } = this.config
+    const { baseValues, variationRanges } = this.config
 
     // Generate realistic voltage with small variations
     const voltage = this.addVariation(baseValues.pvVoltage, 0.05)
@@ -93,27 +104,26 @@ export class DataGenerator {
       variationRanges.pvPower.max
     )
 
-    // Calculate current from power and voltage (P = V * I)
-    const current = power > 0 ? Number((power / voltage).toFixed(2)) : 0
-
     // Add some cloud simulation (occasional power drops)
     const cloudFactor = Math.random() < 0.1 ? 0.3 : 1 // 10% chance of clouds
     const adjustedPower = Number((power * cloudFactor).toFixed(1))
     const adjustedCurrent = adjustedPower > 0 ? Number((adjustedPower / voltage).toFixed(2)) : 0
 
-    // Update daily energy (accumulate over time)
+    // Update energy counters (accumulate over time)
     const energyIncrement = (adjustedPower / 1000) * (1 / 60) // Convert to kWh per minute
     this.dailyEnergy += energyIncrement
     this.monthlyEnergy += energyIncrement
     this.yearlyEnergy += energyIncrement
+    this.totalEnergy += energyIncrement
 
     return {
-      PV_Voltage: Number(voltage.toFixed(1)),
-      PV_Current: adjustedCurrent,
-      PV_Power_W: adjustedPower,
-      PV_Daily_Wh: Number((this.dailyEnergy * 1000).toFixed(0)),
-      PV_Monthly_Wh: Number((this.monthlyEnergy * 1000).toFixed(0)),
-      PV_Yearly_Wh: Number((this.yearlyEnergy * 1000).toFixed(0))
+      voltage: Number(voltage.toFixed(1)),
+      current: adjustedCurrent,
+      powerW: adjustedPower,
+      dailyWh: Number((this.dailyEnergy * 1000).toFixed(0)),
+      monthlyWd: Number((this.monthlyEnergy * 1000).toFixed(0)),
+      yearlyWm: Number((this.yearlyEnergy * 1000).toFixed(0)),
+      totalKWh: Number(this.totalEnergy.toFixed(2))
     }
   }
 
@@ -124,7 +134,7 @@ export class DataGenerator {
     const voltage = this.addVariation(baseValues.batteryVoltage, 0.02)
 
     // Battery current depends on solar generation and grid usage
-    let current = this.randomInRange(-10, 20) // Negative = discharging, Positive = charging
+    const current = this.randomInRange(-10, 20) // Negative = discharging, Positive = charging
 
     // Adjust SOC gradually
     let newSoc = baseValues.batterySoc
@@ -140,10 +150,10 @@ export class DataGenerator {
     )
 
     return {
-      Battery_Voltage: Number(voltage.toFixed(1)),
-      Battery_Current: Number(current.toFixed(1)),
-      Battery_Temp: Number(temperature.toFixed(1)),
-      Battery_SOC: Number(newSoc.toFixed(1))
+      voltage: Number(voltage.toFixed(1)),
+      current: Number(current.toFixed(1)),
+      temperature: Number(temperature.toFixed(1)),
+      soc: Number(newSoc.toFixed(1))
     }
   }
 
@@ -156,15 +166,21 @@ export class DataGenerator {
     const frequency = this.addVariation(baseValues.gridFrequency, 0.001)
 
     return {
-      Inverter_Voltage: Number(voltage.toFixed(1)),
-      Inverter_Current: Number(current.toFixed(1)),
-      Inverter_Frequency: Number(frequency.toFixed(2))
+      voltage: Number(voltage.toFixed(1)),
+      current: Number(current.toFixed(1)),
+      frequency: Number(frequency.toFixed(2)),
+      state: 'online'
     }
   }
 
   private generateGridData(): GridData {
     const { baseValues, variationRanges } = this.config
 
+    // Occasional grid outage
+    if (Math.random() < 0.01) {
+      return { voltage: 0, current: 0, frequency: 0, state: 'offline' }
+    }
+
     // Grid data should be stable
     const voltage = this.addVariation(baseValues.gridVoltage, 0.005)
     const current = this.randomInRange(
@@ -174,44 +190,54 @@ export class DataGenerator {
     const frequency = this.addVariation(baseValues.gridFrequency, 0.0005)
 
     return {
-      Grid_Voltage: Number(voltage.toFixed(1)),
-      Grid_Current: Number(current.toFixed(1)),
-      Grid_Frequency: Number(frequency.toFixed(2))
+      voltage: Number(voltage.toFixed(1)),
+      current: Number(current.toFixed(1)),
+      frequency: Number(frequency.toFixed(2)),
+      state: 'online'
     }
   }
 
-  private generateSystemStatus(): SystemStatus {
-    // System status with occasional alerts
-    const alertProbability = 0.02 // 2% chance of alert
-    const hasAlert = Math.random() < alertProbability
+  private generateSystemStatus(battery: BatteryData, inverter: InverterData, grid: GridData): SystemStatus {
+    // Status code bits mirror what TwinklePower inverters report
+    const hex = encodeStatusFlags({
+      inverterOutput: inverter.state === 'online',
+      gridPresent: grid.state === 'online',
+      batteryLow: (battery.soc ?? 100) < 20
+    })
 
     return {
-      status: hasAlert ? 'warning' : 'normal',
-      alerts: hasAlert ? ['Low battery warning'] : [],
-      lastUpdate: new Date(),
-      connectionStatus: 'connected',
-      dataQuality: 'good'
+      hex,
+      flags: decodeStatusFlags(hex)
     }
   }
 
-  public generateRealtimeData(): InverterRecord {
+  public generateRealtimeData(at: Date = new Date()): InverterRecord {
     this.updateTimeBasedConfig()
 
-    const timestamp = new Date()
-
     const pvData = this.generatePVData()
     const batteryData = this.generateBatteryData()
     const inverterData = this.generateInverterData()
     const gridData = this.generateGridData()
-    const systemStatus = this.generateSystemStatus()
+    const systemStatus = this.generateSystemStatus(batteryData, inverterData, gridData)
 
     const record: InverterRecord = {
-      timestamp,
+      userRecord: {
+        id: this.config.device.id,
+        name: this.config.device.name,
+        timestamp: createTimestampFromDate(at),
+        blackout: {
+          reported: true,
+          ratio: gridData.state === 'offline' ? 1 : 0
+        }
+      },
+      inverterSupply: {
+        totalKWh: Number(this.totalEnergy.toFixed(2))
+      },
       pv: pvData,
       battery: batteryData,
       inverter: inverterData,
       grid: gridData,
-      system: systemStatus
+      status: systemStatus
     }
 
     this.lastRecord = record
@@ -247,9 +273,7 @@ export class DataGenerator {
 
       this.updateTimeBasedConfig()
 
-      const record = this.generateRealtimeData()
-      record.timestamp = timestamp
-      records.push(record)
+      records.push(this.generateRealtimeData(timestamp))
 
       // Restore original time config
       this.config.timeOfDay = oldTimeOfDay
@@ -0,0 +1,91 @@
+import { readFileSync } from 'node:fs'
+import { ModbusGatewayConfig, ModbusGatewayConfigSchema } from '@/types'
+import { SchemaValidationError, validateWithSchema } from '@/lib/schema-validation'
+import { ModbusGateway } from './modbus-gateway'
+import { startModbusSimulator } from './modbus-simulator'
+import { EXAMPLE_REGISTER_MAP } from './register-map'
+
+export * from './modbus-client'
+export * from './modbus-gateway'
+export * from './modbus-simulator'
+export * from './register-map'
+
+/**
+ * Port of the bundled simulator
+ */
+const DEFAULT_SIMULATOR_PORT = 1502
+
+/**
+ * Reads the gateway settings from environment variables, null when no
+ * devices are configured
+ *
+ * - `MODBUS_DEVICES`: JSON list of devices, e.g. `[{"id":"INV-1","host":"10.0.0.5","unitId":1}]`
+ * - `MODBUS_REGISTER_MAP`: path of a register map JSON file; the example map
+ *   used without one only matches the simulator
+ * - `MODBUS_POLL_INTERVAL`, `MODBUS_TIMEOUT`: milliseconds
+ * - `MODBUS_SIMULATOR=1`: polls the bundled simulator on `MODBUS_SIMULATOR_PORT`
+ *   when `MODBUS_DEVICES` is not set
+ *
+ * Throws SchemaValidationError when the settings are invalid.
+ */
+export function loadModbusGatewayConfig(env: NodeJS.ProcessEnv = process.env): ModbusGatewayConfig | null {
+  const simulatorPort = Number(env.MODBUS_SIMULATOR_PORT) || DEFAULT_SIMULATOR_PORT
+  const devices = env.MODBUS_DEVICES
+    ? JSON.parse(env.MODBUS_DEVICES)
+    : env.MODBUS_SIMULATOR === '1'
+      ? [1, 2].map(unitId => ({ id: `MODBUS-0${unitId}`, name: `Simulated inverter ${unitId}`, host: '127.0.0.1', port: simulatorPort, unitId }))
+      : null
+  if (!devices) return null
+  if (env.MODBUS_DEVICES && !env.MODBUS_REGISTER_MAP) {
+    console.warn('MODBUS_REGISTER_MAP is not set: polling with the example register map, whose addresses only match the bundled simulator')
+  }
+
+  const { data, errors } = validateWithSchema(ModbusGatewayConfigSchema, {
+    devices,
+    registerMap: env.MODBUS_REGISTER_MAP
+      ? JSON.parse(readFileSync(env.MODBUS_REGISTER_MAP, 'utf8'))
+      : EXAMPLE_REGISTER_MAP,
+    ...(env.MODBUS_POLL_INTERVAL ? { pollInterval: Number(env.MODBUS_POLL_INTERVAL) } : {}),
+    ...(env.MODBUS_TIMEOUT ? { timeout: Number(env.MODBUS_TIMEOUT) } : {}),
+  })
+  if (!data) throw new SchemaValidationError('Invalid Modbus gateway settings', errors)
+  return data
+}
+
+// Kept on globalThis so hot reloads in development don't start a second gateway
+const globalForModbus = globalThis as typeof globalThis & {
+  modbusGateway?: Promise<ModbusGateway | null>
+}
+
+/**
+ * Starts the gateway configured by the environment on first use, with the
+ * bundled simulator when `MODBUS_SIMULATOR=1`; null when not configured.
+ * A failed start is retried by the next call.
+ */
+export function getModbusGateway(): Promise<ModbusGateway | null> {
+  globalForModbus.modbusGateway ??= (async () => {
+    const config = loadModbusGatewayConfig()
+    if (!config) return null
+
+    if (process.env.MODBUS_SIMULATOR === '1') {
+      const port = Number(process.env.MODBUS_SIMULATOR_PORT) || DEFAULT_SIMULATOR_PORT
+      await startModbusSimulator({
+        port,
+        unitIds: config.devices.map(device => device.unitId),
+        registerMap: config.registerMap,
+        updateInterval: config.pollInterval,
+      })
+      console.log(`Modbus simulator listening on 127.0.0.1:${port}`)
+    }
+
+    const gateway = new ModbusGateway(config)
+    gateway.start()
+    return gateway
+  })().catch(error => {
+    // Let the next request try again, e.g. once the settings are fixed
+    globalForModbus.modbusGateway = undefined
+    throw error
+  })
+
+  return globalForModbus.modbusGateway
+}
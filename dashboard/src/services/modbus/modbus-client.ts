@@ -0,0 +1,213 @@
+import { Socket } from 'node:net'
+import { ModbusTable } from '@/types'
+
+/**
+ * Function code reading each register table
+ */
+export const READ_FUNCTION_CODES: Record<ModbusTable, number> = {
+  holding: 3,
+  input: 4,
+}
+
+/**
+ * Most registers one read may ask for
+ */
+export const MAX_REGISTERS_PER_READ = 125
+
+/**
+ * Meanings of Modbus exception codes
+ */
+const EXCEPTION_MESSAGES: Record<number, string> = {
+  1: 'illegal function',
+  2: 'illegal data address',
+  3: 'illegal data value',
+  4: 'server device failure',
+  6: 'server device busy',
+  10: 'gateway path unavailable',
+  11: 'gateway target device failed to respond',
+}
+
+/**
+ * Thrown when a device answers a request with a Modbus exception
+ */
+export class ModbusExceptionError extends Error {
+  constructor(public readonly exceptionCode: number) {
+    super(`Modbus exception ${exceptionCode}: ${EXCEPTION_MESSAGES[exceptionCode] ?? 'unknown exception'}`)
+    this.name = 'ModbusExceptionError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (pdu: Buffer) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Modbus TCP client for reading registers
+ *
+ * Keeps one connection to a device (or a gateway in front of several units)
+ * and matches answers to requests by transaction ID, so requests may overlap.
+ */
+export class ModbusTcpClient {
+  private socket: Socket | null = null
+  private connecting: Promise<void> | null = null
+  private buffered = Buffer.alloc(0)
+  private pending = new Map<number, PendingRequest>()
+  private nextTransactionId = 1
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    private readonly timeout: number = 3000
+  ) {}
+
+  /** Connects unless already connected */
+  public connect(): Promise<void> {
+    if (this.socket) return this.connecting ?? Promise.resolve()
+
+    const socket = new Socket()
+    this.socket = socket
+    this.buffered = Buffer.alloc(0)
+
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Timed out connecting to ${this.host}:${this.port}`))
+      }, this.timeout)
+
+      socket.once('connect', () => {
+        clearTimeout(timer)
+        this.connecting = null
+        resolve()
+      })
+      socket.once('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+
+    socket.setNoDelay(true)
+    socket.on('data', chunk => this.handleData(chunk))
+    socket.on('error', () => {
+      // Reported through the close below and the rejected promise
+    })
+    socket.on('close', () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.connecting = null
+      this.failPending(new Error(`Connection to ${this.host}:${this.port} closed`))
+    })
+    socket.connect(this.port, this.host)
+
+    return this.connecting
+  }
+
+  /**
+   * Reads `count` consecutive registers, returning their raw 16-bit values
+   */
+  public async readRegisters(unitId: number, table: ModbusTable, address: number, count: number): Promise<number[]> {
+    if (count < 1 || count > MAX_REGISTERS_PER_READ) {
+      throw new RangeError(`Cannot read ${count} registers at once`)
+    }
+
+    const request = Buffer.alloc(5)
+    request.writeUInt8(READ_FUNCTION_CODES[table], 0)
+    request.writeUInt16BE(address, 1)
+    request.writeUInt16BE(count, 3)
+
+    const response = await this.request(unitId, request)
+    const byteCount = response.readUInt8(1)
+    if (byteCount !== count * 2 || response.length < 2 + byteCount) {
+      throw new Error(`Expected ${count} registers, got ${byteCount} bytes`)
+    }
+
+    const values: number[] = []
+    for (let i = 0; i < count; i++) values.push(response.readUInt16BE(2 + i * 2))
+    return values
+  }
+
+  public close(): void {
+    const { socket } = this
+    this.socket = null
+    this.connecting = null
+    this.failPending(new Error('Client closed'))
+    socket?.destroy()
+  }
+
+  /**
+   * Sends a request PDU and resolves with the answer's PDU
+   */
+  private async request(unitId: number, pdu: Buffer): Promise<Buffer> {
+    await this.connect()
+    const { socket } = this
+    if (!socket) throw new Error(`Not connected to ${this.host}:${this.port}`)
+
+    const transactionId = this.nextTransactionId
+    this.nextTransactionId = (this.nextTransactionId % 0xffff) + 1
+
+    // MBAP header: transaction ID, protocol ID (0), length of unit ID + PDU, unit ID
+    const header = Buffer.alloc(7)
+    header.writeUInt16BE(transactionId, 0)
+    header.writeUInt16BE(0, 2)
+    header.writeUInt16BE(pdu.length + 1, 4)
+    header.writeUInt8(unitId, 6)
+
+    const response = await new Promise<Buffer>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(transactionId)
+        reject(new Error(`Unit ${unitId} at ${this.host}:${this.port} did not answer`))
+      }, this.timeout)
+      this.pending.set(transactionId, { resolve, reject, timer })
+      socket.write(Buffer.concat([header, pdu]))
+    })
+
+    // Both exceptions and reads answer at least a function code and one byte
+    if (response.length < 2) {
+      throw new Error(`Truncated answer from unit ${unitId} at ${this.host}:${this.port}`)
+    }
+    const functionCode = response.readUInt8(0)
+    if (functionCode === (pdu.readUInt8(0) | 0x80)) {
+      throw new ModbusExceptionError(response.readUInt8(1))
+    }
+    if (functionCode !== pdu.readUInt8(0)) {
+      throw new Error(`Unexpected function code ${functionCode} in answer`)
+    }
+    return response
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffered = Buffer.concat([this.buffered, chunk])
+
+    while (this.buffered.length >= 7) {
+      const length = this.buffered.readUInt16BE(4)
+      // The length covers the unit ID and at least a function code; without
+      // them the stream can't be split into answers any more
+      if (length < 2) {
+        this.failPending(new Error(`Malformed answer from ${this.host}:${this.port}`))
+        this.close()
+        return
+      }
+      if (this.buffered.length < 6 + length) break
+
+      const transactionId = this.buffered.readUInt16BE(0)
+      const pdu = Buffer.from(this.buffered.subarray(7, 6 + length))
+      this.buffered = this.buffered.subarray(6 + length)
+
+      // Answers to timed out requests are dropped
+      const pending = this.pending.get(transactionId)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pending.delete(transactionId)
+        pending.resolve(pdu)
+      }
+    }
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    this.pending.clear()
+  }
+}
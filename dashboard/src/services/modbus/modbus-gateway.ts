@@ -0,0 +1,133 @@
+import { InverterRecord, ModbusDevice, ModbusGatewayConfig } from '@/types'
+import { ModbusExceptionError, ModbusTcpClient } from './modbus-client'
+import { planRegisterReads, recordFromRegisters, RegisterBlock, RegisterValues } from './register-map'
+
+/**
+ * Minutes of records kept for dashboards that connect later
+ */
+const BACKLOG_MINUTES = 60
+
+/**
+ * Receives what the gateway reads
+ */
+export interface ModbusGatewayListener {
+  onRecord: (record: InverterRecord) => void
+  /** A device could not be read; polling goes on */
+  onError: (device: ModbusDevice, error: Error) => void
+}
+
+/**
+ * Polls inverters over Modbus TCP and turns their registers into records
+ *
+ * Each device is polled every `pollInterval`, waiting for the previous poll
+ * to finish. Devices sharing a host and port (units behind one Modbus
+ * gateway) share a connection. A poll that fails for another reason than a
+ * Modbus exception drops the connection, and the next poll reconnects.
+ */
+export class ModbusGateway {
+  private config: ModbusGatewayConfig
+  private blocks: RegisterBlock[]
+  private clients = new Map<string, ModbusTcpClient>()
+  private timers = new Map<string, NodeJS.Timeout>()
+  private listeners = new Set<ModbusGatewayListener>()
+  private backlog: InverterRecord[] = []
+  private failing = new Set<string>()
+  private running = false
+
+  constructor(config: ModbusGatewayConfig) {
+    this.config = config
+    this.blocks = planRegisterReads(config.registerMap)
+  }
+
+  public start(): void {
+    if (this.running) return
+    this.running = true
+    this.config.devices.forEach(device => this.schedulePoll(device, 0))
+    console.log(
+      `Modbus gateway polling ${this.config.devices.length} devices every ${this.config.pollInterval} ms`
+      + ` (${this.config.registerMap.name} register map, ${this.blocks.length} reads per poll)`
+    )
+  }
+
+  public stop(): void {
+    this.running = false
+    this.timers.forEach(timer => clearTimeout(timer))
+    this.timers.clear()
+    this.clients.forEach(client => client.close())
+    this.clients.clear()
+  }
+
+  /**
+   * Adds a listener, returning a function that removes it
+   */
+  public subscribe(listener: ModbusGatewayListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Records of the last hour, oldest first */
+  public getBacklog(): InverterRecord[] {
+    return [...this.backlog]
+  }
+
+  /**
+   * Reads one device's registers and builds its record
+   */
+  public async readDevice(device: ModbusDevice): Promise<InverterRecord> {
+    const client = this.getClient(device)
+    const values: RegisterValues = { holding: new Map(), input: new Map() }
+
+    for (const block of this.blocks) {
+      const words = await client.readRegisters(device.unitId, block.table, block.address, block.count)
+      words.forEach((word, i) => values[block.table].set(block.address + i, word))
+    }
+
+    return recordFromRegisters(this.config.registerMap, values, device)
+  }
+
+  private schedulePoll(device: ModbusDevice, delay: number): void {
+    this.timers.set(device.id, setTimeout(() => this.poll(device), delay))
+  }
+
+  private async poll(device: ModbusDevice): Promise<void> {
+    try {
+      const record = await this.readDevice(device)
+      if (!this.running) return
+      if (this.failing.delete(device.id)) console.log(`Modbus device ${device.id} is answering again`)
+      this.addToBacklog(record)
+      this.listeners.forEach(listener => listener.onRecord(record))
+    } catch (error) {
+      if (!this.running) return
+      const failure = error instanceof Error ? error : new Error(String(error))
+      // Log when a device starts failing, not on every poll
+      if (!this.failing.has(device.id)) {
+        this.failing.add(device.id)
+        console.warn(`Modbus device ${device.id} could not be read:`, failure.message)
+      }
+      // An exception is the device's answer, so the connection is fine
+      if (!(failure instanceof ModbusExceptionError)) this.getClient(device).close()
+      this.listeners.forEach(listener => listener.onError(device, failure))
+    } finally {
+      if (this.running) this.schedulePoll(device, this.config.pollInterval)
+    }
+  }
+
+  private getClient(device: ModbusDevice): ModbusTcpClient {
+    const key = `${device.host}:${device.port}`
+    let client = this.clients.get(key)
+    if (!client) {
+      client = new ModbusTcpClient(device.host, device.port, this.config.timeout)
+      this.clients.set(key, client)
+    }
+    return client
+  }
+
+  private addToBacklog(record: InverterRecord): void {
+    this.backlog.push(record)
+    const since = Date.now() - BACKLOG_MINUTES * 60 * 1000
+    const firstKept = this.backlog.findIndex(entry => new Date(entry.userRecord.timestamp.datetime ?? 0).getTime() >= since)
+    if (firstKept > 0) this.backlog.splice(0, firstKept)
+  }
+}
@@ -0,0 +1,128 @@
+import { createServer, Server, Socket } from 'node:net'
+import { ModbusRegisterMap, ModbusTable } from '@/types'
+import { DataGenerator } from '../data-generator'
+import { MAX_REGISTERS_PER_READ, READ_FUNCTION_CODES } from './modbus-client'
+import { RegisterValues, registersFromRecord, EXAMPLE_REGISTER_MAP } from './register-map'
+
+export interface ModbusSimulatorOptions {
+  port: number
+  host?: string
+  /** Unit IDs answered, one simulated inverter each */
+  unitIds?: number[]
+  registerMap?: ModbusRegisterMap
+  /** Milliseconds between new readings */
+  updateInterval?: number
+}
+
+/**
+ * A running simulator
+ */
+export interface ModbusSimulator {
+  server: Server
+  close: () => Promise<void>
+}
+
+const EXCEPTIONS = {
+  illegalFunction: 1,
+  illegalAddress: 2,
+  illegalValue: 3,
+  targetFailed: 11,
+}
+
+/**
+ * Serves `DataGenerator` readings over Modbus TCP, laid out by a register
+ * map, so the gateway can be run end to end without inverters
+ *
+ * Registers outside the map read as 0. Unknown unit IDs get the exception a
+ * gateway returns for an unreachable device.
+ */
+export function startModbusSimulator({
+  port,
+  host = '127.0.0.1',
+  unitIds = [1],
+  registerMap = EXAMPLE_REGISTER_MAP,
+  updateInterval = 5000,
+}: ModbusSimulatorOptions): Promise<ModbusSimulator> {
+  const units = new Map(unitIds.map(unitId => {
+    const generator = new DataGenerator()
+    return [unitId, { generator, values: registersFromRecord(registerMap, generator.generateRealtimeData()) }]
+  }))
+
+  const timer = setInterval(() => {
+    units.forEach(unit => {
+      unit.values = registersFromRecord(registerMap, unit.generator.generateRealtimeData())
+    })
+  }, updateInterval)
+
+  const sockets = new Set<Socket>()
+  const server = createServer(socket => {
+    sockets.add(socket)
+    let buffered = Buffer.alloc(0)
+
+    socket.on('data', chunk => {
+      buffered = Buffer.concat([buffered, chunk])
+      while (buffered.length >= 7) {
+        const length = buffered.readUInt16BE(4)
+        // The length covers the unit ID and at least a function code
+        if (length < 2) {
+          socket.destroy()
+          return
+        }
+        if (buffered.length < 6 + length) break
+        const header = buffered.subarray(0, 7)
+        const pdu = buffered.subarray(7, 6 + length)
+        buffered = buffered.subarray(6 + length)
+
+        const answer = answerRequest(units.get(header.readUInt8(6))?.values ?? null, pdu)
+        const responseHeader = Buffer.from(header)
+        responseHeader.writeUInt16BE(answer.length + 1, 4)
+        socket.write(Buffer.concat([responseHeader, answer]))
+      }
+    })
+    socket.on('error', () => socket.destroy())
+    socket.on('close', () => sockets.delete(socket))
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => {
+      server.off('error', reject)
+      resolve({
+        server,
+        close: () => new Promise(done => {
+          clearInterval(timer)
+          sockets.forEach(socket => socket.destroy())
+          server.close(() => done())
+        }),
+      })
+    })
+  })
+}
+
+/**
+ * Answers one request PDU, which holds at least the function code
+ */
+function answerRequest(values: RegisterValues | null, pdu: Buffer): Buffer {
+  const functionCode = pdu.readUInt8(0)
+  const exception = (code: number) => Buffer.from([functionCode | 0x80, code])
+
+  // A read request is the function code, an address and a count
+  if (pdu.length < 5) return exception(EXCEPTIONS.illegalValue)
+  const table = (Object.keys(READ_FUNCTION_CODES) as ModbusTable[])
+    .find(key => READ_FUNCTION_CODES[key] === functionCode)
+  if (!table) return exception(EXCEPTIONS.illegalFunction)
+  if (!values) return exception(EXCEPTIONS.targetFailed)
+
+  const address = pdu.readUInt16BE(1)
+  const count = pdu.readUInt16BE(3)
+  if (count < 1 || count > MAX_REGISTERS_PER_READ) return exception(EXCEPTIONS.illegalValue)
+  if (address + count > 0x10000) return exception(EXCEPTIONS.illegalAddress)
+
+  const answer = Buffer.alloc(2 + count * 2)
+  answer.writeUInt8(functionCode, 0)
+  answer.writeUInt8(count * 2, 1)
+  for (let i = 0; i < count; i++) {
+    answer.writeUInt16BE(values[table].get(address + i) ?? 0, 2 + i * 2)
+  }
+  return answer
+}
@@ -0,0 +1,226 @@
+import {
+  FieldPath,
+  InverterRecord,
+  ModbusDataType,
+  ModbusDevice,
+  ModbusRegister,
+  ModbusRegisterMap,
+  ModbusRegisterMapSchema,
+  ModbusTable,
+} from '@/types'
+import { createTimestampFromDate } from '@/lib/record-adapters'
+import { decodeStatusFlags } from '@/lib/csv/status-flags'
+import { getFieldValue } from '@/lib/csv/fields'
+import { MAX_REGISTERS_PER_READ } from './modbus-client'
+
+/**
+ * Example register layout (holding registers), used by the bundled simulator
+ *
+ * The addresses are made up, not taken from an inverter's documentation. For
+ * real inverters, write a register map file from the vendor's Modbus table
+ * and set `MODBUS_REGISTER_MAP` to it.
+ */
+export const EXAMPLE_REGISTER_MAP: ModbusRegisterMap = ModbusRegisterMapSchema.parse({
+  name: 'Example',
+  wordOrder: 'big',
+  registers: [
+    { field: 'status', address: 0 },
+    { field: 'pv.voltage', address: 10, scale: 0.1 },
+    { field: 'pv.current', address: 11, scale: 0.1 },
+    { field: 'pv.powerW', address: 12, type: 'uint32' },
+    { field: 'pv.dailyWh', address: 14, type: 'uint32' },
+    { field: 'pv.totalKWh', address: 16, type: 'uint32', scale: 0.1 },
+    { field: 'battery.voltage', address: 20, scale: 0.1 },
+    { field: 'battery.current', address: 21, type: 'int16', scale: 0.1 },
+    { field: 'battery.temperature', address: 22, type: 'int16', scale: 0.1 },
+    { field: 'battery.soc', address: 23 },
+    { field: 'inverter.voltage', address: 30, scale: 0.1 },
+    { field: 'inverter.current', address: 31, scale: 0.1 },
+    { field: 'inverter.frequency', address: 32, scale: 0.01 },
+    { field: 'grid.voltage', address: 40, scale: 0.1 },
+    { field: 'grid.current', address: 41, scale: 0.1 },
+    { field: 'grid.frequency', address: 42, scale: 0.01 },
+    { field: 'inverterSupply.totalKWh', address: 44, type: 'uint32', scale: 0.1 },
+  ],
+})
+
+/**
+ * Consecutive registers fetched with one read
+ */
+export interface RegisterBlock {
+  table: ModbusTable
+  address: number
+  count: number
+}
+
+/**
+ * Raw register values by table and address
+ */
+export type RegisterValues = Record<ModbusTable, Map<number, number>>
+
+/**
+ * Unused registers a read may span to save a request
+ */
+const MAX_BLOCK_GAP = 16
+
+/**
+ * Number of registers a value takes
+ */
+export function registerWidth(type: ModbusDataType): number {
+  return type === 'uint32' || type === 'int32' ? 2 : 1
+}
+
+/**
+ * Groups a map's registers into as few reads as possible
+ */
+export function planRegisterReads(map: ModbusRegisterMap): RegisterBlock[] {
+  const blocks: RegisterBlock[] = []
+
+  const tables: ModbusTable[] = ['holding', 'input']
+  tables.forEach(table => {
+    const registers = map.registers
+      .filter(register => register.table === table)
+      .sort((a, b) => a.address - b.address)
+
+    let block: RegisterBlock | null = null
+    registers.forEach(register => {
+      const end = register.address + registerWidth(register.type)
+      if (
+        block
+        && register.address - (block.address + block.count) <= MAX_BLOCK_GAP
+        && end - block.address <= MAX_REGISTERS_PER_READ
+      ) {
+        block.count = Math.max(block.count, end - block.address)
+      } else {
+        block = { table, address: register.address, count: end - register.address }
+        blocks.push(block)
+      }
+    })
+  })
+
+  return blocks
+}
+
+/**
+ * Reads a register's value, null when any of its registers is missing
+ */
+function decodeRegister(register: ModbusRegister, values: RegisterValues, wordOrder: ModbusRegisterMap['wordOrder']): number | null {
+  const table = values[register.table]
+  const first = table.get(register.address)
+  if (first === undefined) return null
+
+  switch (register.type) {
+    case 'uint16':
+      return first
+    case 'int16':
+      return first >= 0x8000 ? first - 0x10000 : first
+    case 'uint32':
+    case 'int32': {
+      const second = table.get(register.address + 1)
+      if (second === undefined) return null
+      const [high, low] = wordOrder === 'big' ? [first, second] : [second, first]
+      const value = high * 0x10000 + low
+      return register.type === 'int32' && value >= 0x80000000 ? value - 0x100000000 : value
+    }
+  }
+}
+
+/**
+ * Encodes a raw value into a register's words
+ */
+function encodeRegister(register: ModbusRegister, raw: number, wordOrder: ModbusRegisterMap['wordOrder']): number[] {
+  const value = Math.round(raw)
+  if (registerWidth(register.type) === 1) return [value & 0xffff]
+
+  const unsigned = value < 0 ? value + 0x100000000 : value
+  const high = Math.floor(unsigned / 0x10000) & 0xffff
+  const low = unsigned & 0xffff
+  return wordOrder === 'big' ? [high, low] : [low, high]
+}
+
+/**
+ * Rounds away floating point noise from scaling, e.g. 230.10000000000002
+ */
+function roundScaled(value: number): number {
+  return Number(value.toPrecision(12))
+}
+
+/**
+ * Sets a reading on a record under construction
+ */
+function setField(record: Record<string, unknown>, path: FieldPath, value: number | null): void {
+  const parts = path.split('.')
+  let section = record
+  parts.slice(0, -1).forEach(part => {
+    section = section[part] as Record<string, unknown>
+  })
+  section[parts[parts.length - 1]] = value
+}
+
+/**
+ * Operating state from an AC source's voltage, as the CSV parser derives it
+ */
+function sourceState(voltage: number | null): InverterRecord['grid']['state'] {
+  if (voltage === null) return 'unknown'
+  return voltage === 0 ? 'offline' : 'online'
+}
+
+/**
+ * Builds a record from a device's register values
+ *
+ * Fields outside the map, or whose registers were not read, are null.
+ */
+export function recordFromRegisters(
+  map: ModbusRegisterMap,
+  values: RegisterValues,
+  device: ModbusDevice,
+  at: Date = new Date()
+): InverterRecord {
+  const record: InverterRecord = {
+    userRecord: {
+      id: device.id,
+      name: device.name ?? device.id,
+      timestamp: createTimestampFromDate(at, device.timeZone),
+      blackout: { reported: false, ratio: null },
+    },
+    inverterSupply: { totalKWh: null },
+    pv: { voltage: null, current: null, powerW: null, dailyWh: null, monthlyWd: null, yearlyWm: null, totalKWh: null },
+    battery: { voltage: null, current: null, temperature: null, soc: null },
+    inverter: { voltage: null, current: null, frequency: null, state: 'unknown' },
+    grid: { voltage: null, current: null, frequency: null, state: 'unknown' },
+    status: { hex: '' },
+  }
+
+  map.registers.forEach(register => {
+    const raw = decodeRegister(register, values, map.wordOrder)
+    if (register.field === 'status') {
+      if (raw === null) return
+      const hex = `0x${raw.toString(16).toUpperCase().padStart(2, '0')}`
+      record.status = { hex, flags: decodeStatusFlags(hex) }
+      return
+    }
+    setField(record as unknown as Record<string, unknown>, register.field, raw === null ? null : roundScaled(raw * register.scale))
+  })
+
+  record.inverter.state = sourceState(record.inverter.voltage)
+  record.grid.state = sourceState(record.grid.voltage)
+  return record
+}
+
+/**
+ * Encodes a record into register values, the inverse of recordFromRegisters
+ */
+export function registersFromRecord(map: ModbusRegisterMap, record: InverterRecord): RegisterValues {
+  const values: RegisterValues = { holding: new Map(), input: new Map() }
+
+  map.registers.forEach(register => {
+    const raw = register.field === 'status'
+      ? parseInt(record.status.hex.slice(2), 16) || 0
+      : (getFieldValue(record, register.field) ?? 0) / register.scale
+    encodeRegister(register, raw, map.wordOrder).forEach((word, i) => {
+      values[register.table].set(register.address + i, word)
+    })
+  })
+
+  return values
+}
@@ -0,0 +1,55 @@
+import { RealtimeSettings, RealtimeSettingsSchema } from '@/types'
+import { validateWithSchema } from '@/lib/schema-validation'
+
+const REALTIME_SETTINGS_STORAGE_KEY = 'carrygreen.realtime'
+
+/**
+ * Used until a live data source is saved on the Settings page. Setting
+ * NEXT_PUBLIC_REALTIME_URL at build time switches the default to that server,
+ * with NEXT_PUBLIC_REALTIME_SSE_URL and NEXT_PUBLIC_REALTIME_POLL_URL as
+ * fallbacks. The URL defaults match the mock server.
+ */
+export const DEFAULT_REALTIME_SETTINGS: RealtimeSettings = {
+  transport: process.env.NEXT_PUBLIC_REALTIME_URL ? 'auto' : 'simulator',
+  url: process.env.NEXT_PUBLIC_REALTIME_URL || 'ws://localhost:8787',
+  sseUrl: process.env.NEXT_PUBLIC_REALTIME_SSE_URL || 'http://localhost:8787/events',
+  pollUrl: process.env.NEXT_PUBLIC_REALTIME_POLL_URL || 'http://localhost:8787/poll',
+  mqttUrl: process.env.NEXT_PUBLIC_REALTIME_MQTT_URL || 'ws://localhost:8788/mqtt',
+  mqttTopics: ['carrygreen/+/telemetry'],
+  ...(process.env.NEXT_PUBLIC_REALTIME_TOKEN ? { authToken: process.env.NEXT_PUBLIC_REALTIME_TOKEN } : {})
+}
+
+/**
+ * Returns localStorage when running in a browser
+ */
+function getStorage(): Storage | null {
+  return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null
+}
+
+/**
+ * Loads the saved live data source, falling back to the defaults
+ */
+export function loadRealtimeSettings(): RealtimeSettings {
+  const saved = getStorage()?.getItem(REALTIME_SETTINGS_STORAGE_KEY)
+  if (!saved) return DEFAULT_REALTIME_SETTINGS
+
+  try {
+    // Settings saved by older versions lack the newer fields
+    const { data, errors } = validateWithSchema(RealtimeSettingsSchema, { ...DEFAULT_REALTIME_SETTINGS, ...JSON.parse(saved) })
+    if (!data) {
+      console.warn('Ignoring invalid saved real-time settings:', errors)
+      return DEFAULT_REALTIME_SETTINGS
+    }
+    return data
+  } catch (error) {
+    console.error('Failed to load real-time settings:', error)
+    return DEFAULT_REALTIME_SETTINGS
+  }
+}
+
+/**
+ * Persists the live data source
+ */
+export function saveRealtimeSettings(settings: RealtimeSettings): void {
+  getStorage()?.setItem(REALTIME_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+}
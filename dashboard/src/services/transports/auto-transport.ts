@@ -0,0 +1,73 @@
+import { RealtimeTransportKind } from '@/types'
+import { RealtimeTransport, TransportHandlers } from './types'
+
+/**
+ * Tries transports in order and uses the first that connects
+ *
+ * A site whose proxy blocks WebSocket upgrades falls back to Server-Sent
+ * Events, and one that also buffers streams falls back to long-polling.
+ * Every connection attempt starts again from the first transport, so a
+ * network that is fixed is picked up on the next reconnect.
+ */
+export class AutoTransport implements RealtimeTransport {
+  private candidates: RealtimeTransport[]
+  private current: RealtimeTransport | null = null
+  private active: RealtimeTransport | null = null
+  private cancelled = false
+
+  constructor(candidates: RealtimeTransport[]) {
+    this.candidates = candidates
+  }
+
+  /** The connected transport's kind, `auto` until one connects */
+  public get kind(): RealtimeTransportKind {
+    return this.active?.kind ?? 'auto'
+  }
+
+  public async connect(handlers: TransportHandlers): Promise<void> {
+    this.disconnect()
+    this.cancelled = false
+    const failures: string[] = []
+
+    for (const candidate of this.candidates) {
+      if (this.cancelled) break
+      this.current = candidate
+      try {
+        await candidate.connect(handlers)
+        if (this.cancelled) {
+          candidate.disconnect()
+          break
+        }
+        this.active = candidate
+        return
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        failures.push(`${candidate.kind}: ${message}`)
+        console.warn(`Real-time transport ${candidate.kind} failed, trying the next one:`, message)
+      } finally {
+        this.current = null
+      }
+    }
+
+    throw new Error(
+      failures.length > 0
+        ? `No transport could connect (${failures.join('; ')})`
+        : 'No transport is configured'
+    )
+  }
+
+  public disconnect(): void {
+    this.cancelled = true
+    this.current?.disconnect()
+    this.active?.disconnect()
+    this.active = null
+  }
+
+  public sendHeartbeat(): void {
+    this.active?.sendHeartbeat()
+  }
+
+  public setUpdateInterval(interval: number): void {
+    this.active?.setUpdateInterval?.(interval)
+  }
+}
@@ -0,0 +1,132 @@
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+import {
+  buildSessionUrl,
+  checkServerHello,
+  createClientId,
+  describeServerError,
+  dispatchServerMessage,
+  HANDSHAKE_TIMEOUT,
+  LivenessMonitor,
+  parseServerMessage,
+} from './protocol'
+
+/**
+ * Streams records over Server-Sent Events, for networks whose proxies block
+ * WebSocket upgrades
+ *
+ * Each event's data is one protocol message. The stream is one-way, so the
+ * client's hello fields go in the query string.
+ */
+export class EventSourceTransport implements RealtimeTransport {
+  public readonly kind = 'sse' as const
+  private config: TransportConfig
+  private clientId = createClientId()
+  private source: EventSource | null = null
+  private handlers: TransportHandlers | null = null
+  private liveness = new LivenessMonitor()
+
+  constructor(config: TransportConfig) {
+    this.config = config
+  }
+
+  public connect(handlers: TransportHandlers): Promise<void> {
+    this.disconnect()
+
+    return new Promise((resolve, reject) => {
+      if (typeof EventSource === 'undefined') {
+        reject(new Error('Server-Sent Events are not supported here'))
+        return
+      }
+
+      let settled = false
+      let source: EventSource
+      try {
+        source = new EventSource(buildSessionUrl(this.config.sseUrl, {
+          clientId: this.clientId,
+          authToken: this.config.authToken
+        }))
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)))
+        return
+      }
+      this.source = source
+
+      const handshakeTimer = setTimeout(() => fail(new Error('Server did not send hello')), HANDSHAKE_TIMEOUT)
+
+      const fail = (error: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(handshakeTimer)
+        this.source = null
+        source.close()
+        reject(error)
+      }
+
+      const end = (reason: string) => {
+        if (this.source !== source) return
+        const { handlers: currentHandlers } = this
+        this.teardown()
+        source.close()
+        currentHandlers?.onClose(reason)
+      }
+
+      source.onmessage = event => {
+        if (this.source !== source) return
+        this.liveness.touch()
+
+        const message = parseServerMessage(event.data)
+        if (!message) {
+          handlers.onError(new Error('Ignoring malformed message from server'))
+          return
+        }
+
+        if (!settled) {
+          if (message.type === 'error') {
+            fail(new Error(describeServerError(message)))
+          } else if (message.type === 'hello') {
+            const error = checkServerHello(message)
+            if (error) {
+              fail(error)
+              return
+            }
+            settled = true
+            clearTimeout(handshakeTimer)
+            this.handlers = handlers
+            this.liveness.start(message.heartbeatInterval ?? this.config.heartbeatInterval, () => {
+              end('No heartbeat from server')
+            })
+            resolve()
+          }
+          return
+        }
+
+        if (this.handlers) {
+          const fatal = dispatchServerMessage(message, this.handlers)
+          if (fatal) end(fatal)
+        }
+      }
+
+      source.onerror = () => {
+        // EventSource would quietly retry; the service decides when to reconnect
+        if (!settled) fail(new Error(`Could not open event stream at ${this.config.sseUrl}`))
+        else end('Event stream closed')
+      }
+    })
+  }
+
+  public disconnect(): void {
+    const { source } = this
+    this.teardown()
+    source?.close()
+  }
+
+  public sendHeartbeat(): void {
+    // The stream is one-way; the server's heartbeats show it is alive
+  }
+
+  private teardown(): void {
+    this.liveness.stop()
+    this.source = null
+    this.handlers = null
+  }
+}
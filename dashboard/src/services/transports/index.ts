@@ -0,0 +1,50 @@
+import { RealtimeTransportKind } from '@/types'
+import { RealtimeTransport, TransportConfig } from './types'
+import { SimulatorTransport } from './simulator-transport'
+import { WebSocketTransport } from './websocket-transport'
+import { EventSourceTransport } from './event-source-transport'
+import { LongPollTransport } from './long-poll-transport'
+import { AutoTransport } from './auto-transport'
+import { MqttTransport } from './mqtt-transport'
+import { ReplayTransport } from './replay-transport'
+
+export * from './types'
+export { SimulatorTransport } from './simulator-transport'
+export { WebSocketTransport } from './websocket-transport'
+export { EventSourceTransport } from './event-source-transport'
+export { LongPollTransport } from './long-poll-transport'
+export { AutoTransport } from './auto-transport'
+export { MqttTransport } from './mqtt-transport'
+export { isValidTopicFilter } from './mqtt-codec'
+export { ReplayTransport, REPLAY_SPEEDS } from './replay-transport'
+export type { ReplayListener, ReplayOptions, ReplaySource, ReplaySpeed, ReplayState } from './replay-transport'
+
+/**
+ * Creates the transport of a kind
+ *
+ * `auto` tries WebSocket, Server-Sent Events and long-polling, in that
+ * order, skipping any without a URL.
+ */
+export function createTransport(kind: RealtimeTransportKind, config: TransportConfig): RealtimeTransport {
+  switch (kind) {
+    case 'websocket':
+      return new WebSocketTransport(config)
+    case 'sse':
+      return new EventSourceTransport(config)
+    case 'longpoll':
+      return new LongPollTransport(config)
+    case 'auto':
+      return new AutoTransport([
+        ...(config.url ? [new WebSocketTransport(config)] : []),
+        ...(config.sseUrl ? [new EventSourceTransport(config)] : []),
+        ...(config.pollUrl ? [new LongPollTransport(config)] : [])
+      ])
+    case 'mqtt':
+      return new MqttTransport(config)
+    case 'replay':
+      return new ReplayTransport(config)
+    case 'simulator':
+    default:
+      return new SimulatorTransport(config)
+  }
+}
@@ -0,0 +1,179 @@
+import { ErrorMessage, LongPollResponse, LongPollResponseSchema, ServerMessage } from '@/types'
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+import {
+  buildSessionUrl,
+  checkServerHello,
+  createClientId,
+  describeServerError,
+  dispatchServerMessage,
+  HANDSHAKE_TIMEOUT,
+  parseServerMessage,
+} from './protocol'
+
+/**
+ * How long the server may hold a poll open
+ */
+const POLL_WAIT = 25000 // milliseconds
+
+/**
+ * Extra time given to a held poll before it counts as lost
+ */
+const POLL_GRACE = 10000 // milliseconds
+
+/**
+ * Delay before polling again after a server error response
+ */
+const POLL_RETRY_DELAY = 2000 // milliseconds
+
+/**
+ * Fetches records with plain HTTP long-polling, for networks that allow
+ * neither WebSockets nor streaming responses
+ *
+ * Each request returns the messages after the previous response's cursor.
+ */
+export class LongPollTransport implements RealtimeTransport {
+  public readonly kind = 'longpoll' as const
+  private config: TransportConfig
+  private clientId = createClientId()
+  private controller: AbortController | null = null
+  private handlers: TransportHandlers | null = null
+  private cursor: string | null = null
+
+  constructor(config: TransportConfig) {
+    this.config = config
+  }
+
+  public async connect(handlers: TransportHandlers): Promise<void> {
+    this.disconnect()
+    const controller = new AbortController()
+    this.controller = controller
+    this.cursor = null
+
+    // The first poll answers at once with the server's hello (or an error)
+    const { messages, cursor } = await this.poll(controller, 0, HANDSHAKE_TIMEOUT)
+    const helloIndex = messages.findIndex(message => message.type === 'hello' || message.type === 'error')
+    const hello = messages[helloIndex]
+    if (!hello) throw new Error('Server did not answer hello')
+    if (hello.type === 'error') throw new Error(describeServerError(hello))
+    const error = hello.type === 'hello' ? checkServerHello(hello) : null
+    if (error) throw error
+    if (this.controller !== controller) throw new Error('Disconnected')
+
+    this.cursor = cursor
+    this.handlers = handlers
+    this.deliver(messages.slice(helloIndex + 1), controller)
+    void this.pollLoop(controller)
+  }
+
+  public disconnect(): void {
+    this.controller?.abort()
+    this.controller = null
+    this.handlers = null
+  }
+
+  public sendHeartbeat(): void {
+    // Every poll shows the client is alive
+  }
+
+  /**
+   * Polls until disconnected or the server goes away
+   */
+  private async pollLoop(controller: AbortController): Promise<void> {
+    while (this.controller === controller) {
+      try {
+        const { messages, cursor } = await this.poll(controller, POLL_WAIT, POLL_WAIT + POLL_GRACE)
+        if (this.controller !== controller) return
+        this.cursor = cursor
+        this.deliver(messages, controller)
+      } catch (error) {
+        if (this.controller !== controller) return
+        this.end(controller, error instanceof Error ? error.message : String(error))
+        return
+      }
+    }
+  }
+
+  /**
+   * Passes messages on, ending the session on a fatal error
+   */
+  private deliver(messages: ServerMessage[], controller: AbortController): void {
+    for (const message of messages) {
+      if (this.controller !== controller || !this.handlers) return
+      const fatal = dispatchServerMessage(message, this.handlers)
+      if (fatal) {
+        this.end(controller, fatal)
+        return
+      }
+    }
+  }
+
+  private end(controller: AbortController, reason: string): void {
+    if (this.controller !== controller) return
+    const { handlers } = this
+    this.disconnect()
+    handlers?.onClose(reason)
+  }
+
+  /**
+   * Makes one poll request, giving up after `timeout` milliseconds
+   *
+   * Server errors are retried once after a short delay, since proxies in
+   * front of long-polling servers often cut held requests.
+   */
+  private async poll(
+    controller: AbortController,
+    wait: number,
+    timeout: number,
+    retry: boolean = true
+  ): Promise<{ messages: ServerMessage[]; cursor: string }> {
+    const request = new AbortController()
+    const abort = () => request.abort()
+    controller.signal.addEventListener('abort', abort)
+    const timer = setTimeout(abort, timeout)
+
+    try {
+      const url = buildSessionUrl(
+        this.config.pollUrl,
+        { clientId: this.clientId, authToken: this.config.authToken },
+        { wait: String(wait), ...(this.cursor !== null ? { cursor: this.cursor } : {}) }
+      )
+      const response = await fetch(url, {
+        signal: request.signal,
+        cache: 'no-store',
+        headers: { Accept: 'application/json' }
+      })
+      const body = LongPollResponseSchema.safeParse(await response.json().catch(() => null))
+      const messages = body.success ? parseMessages(body.data) : []
+
+      if (!response.ok) {
+        const error = messages.find((message): message is ErrorMessage => message.type === 'error')
+        if (error) throw new Error(describeServerError(error))
+        if (retry && response.status >= 500) {
+          await new Promise(resolve => setTimeout(resolve, POLL_RETRY_DELAY))
+          return this.poll(controller, wait, timeout, false)
+        }
+        throw new Error(`Poll failed with HTTP ${response.status}`)
+      }
+      if (!body.success) throw new Error('Malformed poll response')
+
+      return { messages, cursor: body.data.cursor }
+    } catch (error) {
+      if (request.signal.aborted && !controller.signal.aborted) {
+        throw new Error('Poll timed out')
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      controller.signal.removeEventListener('abort', abort)
+    }
+  }
+}
+
+/**
+ * Parses the messages of a poll response, skipping malformed ones
+ */
+function parseMessages(response: LongPollResponse): ServerMessage[] {
+  return response.messages
+    .map(message => parseServerMessage(message))
+    .filter((message): message is ServerMessage => message !== null)
+}
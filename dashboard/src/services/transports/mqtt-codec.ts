@@ -0,0 +1,241 @@
+/**
+ * MQTT 3.1.1 packets needed by a subscribing client
+ *
+ * Works on Uint8Arrays so it runs in the browser. Only what MqttTransport
+ * sends and receives is covered: CONNECT, SUBSCRIBE, PUBACK, PINGREQ and
+ * DISCONNECT out; CONNACK, SUBACK, PUBLISH and PINGRESP in.
+ */
+
+const PACKET_TYPES = {
+  connect: 1,
+  connack: 2,
+  publish: 3,
+  puback: 4,
+  subscribe: 8,
+  suback: 9,
+  pingreq: 12,
+  pingresp: 13,
+  disconnect: 14,
+} as const
+
+/**
+ * Reasons a broker refuses a connection, by CONNACK return code
+ */
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized',
+}
+
+/**
+ * SUBACK return code of a refused subscription
+ */
+export const SUBSCRIPTION_FAILED = 0x80
+
+export type MqttPacket =
+  | { type: 'connack'; sessionPresent: boolean; returnCode: number }
+  | { type: 'suback'; packetId: number; grantedQos: number[] }
+  | { type: 'publish'; topic: string; payload: Uint8Array; qos: number; retain: boolean; dup: boolean; packetId: number | null }
+  | { type: 'pingresp' }
+  | { type: 'other'; packetType: number }
+
+export interface ConnectOptions {
+  clientId: string
+  username?: string
+  password?: string
+  /** Seconds the broker waits for a packet before dropping the client */
+  keepAlive: number
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Encodes a packet from its type, flags and body
+ */
+function encodePacket(type: number, flags: number, body: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const length: number[] = []
+  let remaining = body.length
+  do {
+    let byte = remaining % 128
+    remaining = Math.floor(remaining / 128)
+    if (remaining > 0) byte |= 0x80
+    length.push(byte)
+  } while (remaining > 0)
+  return concat([Uint8Array.of((type << 4) | flags, ...length), body])
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
+
+function encodeUInt16(value: number): Uint8Array {
+  return Uint8Array.of(value >> 8, value & 0xff)
+}
+
+/**
+ * Encodes a length-prefixed UTF-8 string
+ */
+function encodeString(value: string): Uint8Array {
+  const bytes = encoder.encode(value)
+  return concat([encodeUInt16(bytes.length), bytes])
+}
+
+export function encodeConnect({ clientId, username, password, keepAlive }: ConnectOptions): Uint8Array {
+  // A password needs a user name in MQTT 3.1.1
+  const user = password !== undefined ? username ?? '' : username
+  const flags = 0x02 // clean session
+    | (user !== undefined ? 0x80 : 0)
+    | (password !== undefined ? 0x40 : 0)
+
+  return encodePacket(PACKET_TYPES.connect, 0, concat([
+    encodeString('MQTT'),
+    Uint8Array.of(4, flags),
+    encodeUInt16(keepAlive),
+    encodeString(clientId),
+    ...(user !== undefined ? [encodeString(user)] : []),
+    ...(password !== undefined ? [encodeString(password)] : []),
+  ]))
+}
+
+export function encodeSubscribe(packetId: number, filters: Array<{ topic: string; qos: number }>): Uint8Array {
+  return encodePacket(PACKET_TYPES.subscribe, 0x02, concat([
+    encodeUInt16(packetId),
+    ...filters.flatMap(({ topic, qos }) => [encodeString(topic), Uint8Array.of(qos)]),
+  ]))
+}
+
+export function encodePuback(packetId: number): Uint8Array {
+  return encodePacket(PACKET_TYPES.puback, 0, encodeUInt16(packetId))
+}
+
+export function encodePingreq(): Uint8Array {
+  return encodePacket(PACKET_TYPES.pingreq, 0)
+}
+
+export function encodeDisconnect(): Uint8Array {
+  return encodePacket(PACKET_TYPES.disconnect, 0)
+}
+
+/**
+ * Describes a CONNACK return code
+ */
+export function describeConnackError(returnCode: number): string {
+  return `Broker refused the connection: ${CONNACK_ERRORS[returnCode] ?? `return code ${returnCode}`}`
+}
+
+/**
+ * Decodes one packet's body
+ */
+function decodePacket(type: number, flags: number, body: Uint8Array): MqttPacket {
+  const readUInt16 = (offset: number) => (body[offset] << 8) | body[offset + 1]
+
+  switch (type) {
+    case PACKET_TYPES.connack:
+      return { type: 'connack', sessionPresent: (body[0] & 0x01) !== 0, returnCode: body[1] }
+    case PACKET_TYPES.suback:
+      return { type: 'suback', packetId: readUInt16(0), grantedQos: Array.from(body.subarray(2)) }
+    case PACKET_TYPES.publish: {
+      const qos = (flags >> 1) & 0x03
+      const topicLength = readUInt16(0)
+      const topic = decoder.decode(body.subarray(2, 2 + topicLength))
+      const payloadOffset = 2 + topicLength + (qos > 0 ? 2 : 0)
+      return {
+        type: 'publish',
+        topic,
+        payload: body.subarray(payloadOffset),
+        qos,
+        retain: (flags & 0x01) !== 0,
+        dup: (flags & 0x08) !== 0,
+        packetId: qos > 0 ? readUInt16(2 + topicLength) : null,
+      }
+    }
+    case PACKET_TYPES.pingresp:
+      return { type: 'pingresp' }
+    default:
+      return { type: 'other', packetType: type }
+  }
+}
+
+/**
+ * Splits a byte stream into packets
+ *
+ * Over WebSocket a packet may be split across messages, or one message may
+ * hold several packets, so bytes are buffered until a packet is complete.
+ */
+export class MqttPacketReader {
+  private buffered: Uint8Array = new Uint8Array(0)
+
+  public push(chunk: Uint8Array): MqttPacket[] {
+    this.buffered = this.buffered.length > 0 ? concat([this.buffered, chunk]) : chunk
+    const packets: MqttPacket[] = []
+
+    for (;;) {
+      const { buffered } = this
+      if (buffered.length < 2) break
+
+      let length = 0
+      let multiplier = 1
+      let offset = 1
+      let byte: number
+      let complete = true
+      do {
+        if (offset >= buffered.length) {
+          complete = false
+          break
+        }
+        byte = buffered[offset++]
+        length += (byte & 0x7f) * multiplier
+        multiplier *= 128
+      } while (byte & 0x80)
+
+      if (!complete || buffered.length < offset + length) break
+      packets.push(decodePacket(buffered[0] >> 4, buffered[0] & 0x0f, buffered.subarray(offset, offset + length)))
+      this.buffered = buffered.subarray(offset + length)
+    }
+
+    return packets
+  }
+}
+
+/**
+ * Checks a topic filter: `#` only as the last level, wildcards alone in their level
+ */
+export function isValidTopicFilter(filter: string): boolean {
+  const levels = filter.split('/')
+  return filter.length > 0 && levels.every((level, i) =>
+    (level === '#' && i === levels.length - 1)
+    || level === '+'
+    || (!level.includes('#') && !level.includes('+'))
+  )
+}
+
+/**
+ * Matches a topic against a filter, returning the topic levels matched by
+ * its wildcards (`#` gives the rest joined with `/`), or null without a match
+ */
+export function matchTopic(filter: string, topic: string): string[] | null {
+  const filterLevels = filter.split('/')
+  const topicLevels = topic.split('/')
+  const captures: string[] = []
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') {
+      captures.push(topicLevels.slice(i).join('/'))
+      return captures
+    }
+    if (i >= topicLevels.length) return null
+    if (filterLevels[i] === '+') captures.push(topicLevels[i])
+    else if (filterLevels[i] !== topicLevels[i]) return null
+  }
+
+  return filterLevels.length === topicLevels.length ? captures : null
+}
@@ -0,0 +1,220 @@
+import { withDeviceId } from '@/lib/record-adapters'
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+import { createClientId, HANDSHAKE_TIMEOUT, LivenessMonitor } from './protocol'
+import {
+  describeConnackError,
+  encodeConnect,
+  encodeDisconnect,
+  encodePingreq,
+  encodePuback,
+  encodeSubscribe,
+  matchTopic,
+  MqttPacket,
+  MqttPacketReader,
+  SUBSCRIPTION_FAILED,
+} from './mqtt-codec'
+
+/**
+ * Packet ID of the one SUBSCRIBE sent per session
+ */
+const SUBSCRIBE_PACKET_ID = 1
+
+/**
+ * Highest QoS asked for; QoS 1 is enough as the service tolerates duplicates
+ */
+const SUBSCRIBE_QOS = 1
+
+/**
+ * Receives records published to an MQTT broker, over MQTT's WebSocket binding
+ *
+ * Subscribes to the configured topic filters, e.g. `carrygreen/+/telemetry`.
+ * The level matched by a filter's first wildcard is the device ID, which
+ * replaces any ID in the payload; payloads are InverterRecord JSON (legacy
+ * simulator records are converted). QoS 1 messages are acknowledged once
+ * passed on, and retained messages arrive right after subscribing as each
+ * device's last known reading.
+ */
+export class MqttTransport implements RealtimeTransport {
+  public readonly kind = 'mqtt' as const
+  private config: TransportConfig
+  private clientId = createClientId()
+  private socket: WebSocket | null = null
+  private handlers: TransportHandlers | null = null
+  private liveness = new LivenessMonitor()
+  private closeReason: string | null = null
+
+  constructor(config: TransportConfig) {
+    this.config = config
+  }
+
+  public connect(handlers: TransportHandlers): Promise<void> {
+    this.disconnect()
+
+    return new Promise((resolve, reject) => {
+      const { mqttUrl, mqttTopics } = this.config
+      if (mqttTopics.length === 0) {
+        reject(new Error('No MQTT topics to subscribe to'))
+        return
+      }
+
+      let settled = false
+      let socket: WebSocket
+      try {
+        socket = new WebSocket(mqttUrl, 'mqtt')
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)))
+        return
+      }
+      socket.binaryType = 'arraybuffer'
+      this.socket = socket
+      this.closeReason = null
+      const reader = new MqttPacketReader()
+
+      const handshakeTimer = setTimeout(() => fail(new Error('Broker did not accept the session')), HANDSHAKE_TIMEOUT)
+
+      const fail = (error: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(handshakeTimer)
+        this.socket = null
+        this.handlers = null
+        socket.close()
+        reject(error)
+      }
+
+      const handlePacket = (packet: MqttPacket) => {
+        switch (packet.type) {
+          case 'connack':
+            if (settled) return
+            if (packet.returnCode !== 0) {
+              fail(new Error(describeConnackError(packet.returnCode)))
+              return
+            }
+            // Retained messages may arrive before SUBACK
+            this.handlers = handlers
+            this.send(encodeSubscribe(SUBSCRIBE_PACKET_ID, mqttTopics.map(topic => ({ topic, qos: SUBSCRIBE_QOS }))))
+            return
+          case 'suback': {
+            if (settled || packet.packetId !== SUBSCRIBE_PACKET_ID) return
+            const refused = mqttTopics.filter((_, i) => packet.grantedQos[i] === SUBSCRIPTION_FAILED)
+            if (refused.length > 0) {
+              fail(new Error(`Broker refused the subscription to ${refused.join(', ')}`))
+              return
+            }
+            settled = true
+            clearTimeout(handshakeTimer)
+            this.liveness.start(this.config.heartbeatInterval, () => {
+              this.closeReason = 'No answer from broker'
+              this.socket?.close(4000, 'Keep-alive timeout')
+            })
+            resolve()
+            return
+          }
+          case 'publish':
+            this.handlePublish(packet)
+            return
+          case 'pingresp':
+            this.handlers?.onHeartbeat()
+            return
+        }
+      }
+
+      socket.onopen = () => {
+        this.send(encodeConnect({
+          clientId: this.clientId,
+          username: this.config.mqttUsername,
+          password: this.config.authToken,
+          // The service pings every heartbeat interval
+          keepAlive: Math.ceil(this.config.heartbeatInterval / 1000),
+        }))
+      }
+
+      socket.onmessage = event => {
+        if (this.socket !== socket) return
+        this.liveness.touch()
+        if (!(event.data instanceof ArrayBuffer)) {
+          handlers.onError(new Error('Ignoring text message from broker'))
+          return
+        }
+        reader.push(new Uint8Array(event.data)).forEach(handlePacket)
+      }
+
+      socket.onerror = () => {
+        fail(new Error(`Could not connect to ${mqttUrl}`))
+      }
+
+      socket.onclose = event => {
+        if (!settled) {
+          fail(new Error(event.reason || `Connection to ${mqttUrl} closed (code ${event.code})`))
+          return
+        }
+        if (this.socket !== socket) return
+
+        const reason = this.closeReason ?? (event.reason || `Connection closed (code ${event.code})`)
+        const { handlers: currentHandlers } = this
+        this.teardown()
+        currentHandlers?.onClose(reason)
+      }
+    })
+  }
+
+  public disconnect(): void {
+    const { socket } = this
+    this.send(encodeDisconnect())
+    this.teardown()
+    socket?.close(1000, 'Client disconnected')
+  }
+
+  public sendHeartbeat(): void {
+    this.send(encodePingreq())
+  }
+
+  /**
+   * Passes a published record on, then acknowledges it
+   */
+  private handlePublish(packet: Extract<MqttPacket, { type: 'publish' }>): void {
+    const { handlers } = this
+    if (!handlers) return
+
+    // An empty retained message only clears the topic
+    if (packet.payload.length > 0) {
+      const deviceId = this.deviceIdFromTopic(packet.topic)
+      let payload: unknown
+      try {
+        payload = JSON.parse(new TextDecoder().decode(packet.payload))
+      } catch {
+        handlers.onError(new Error(`Ignoring non-JSON message on ${packet.topic}`))
+      }
+      if (payload !== undefined) {
+        handlers.onRecords([deviceId ? withDeviceId(payload, deviceId) : payload])
+      }
+    }
+
+    if (packet.qos > 0 && packet.packetId !== null) {
+      this.send(encodePuback(packet.packetId))
+    }
+  }
+
+  /**
+   * Takes the device ID from the first wildcard level of the matching filter
+   */
+  private deviceIdFromTopic(topic: string): string | null {
+    for (const filter of this.config.mqttTopics) {
+      const captures = matchTopic(filter, topic)
+      if (captures && captures.length > 0) return captures[0].split('/')[0] || null
+    }
+    return null
+  }
+
+  private send(packet: Uint8Array): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(packet)
+    }
+  }
+
+  private teardown(): void {
+    this.liveness.stop()
+    this.socket = null
+    this.handlers = null
+  }
+}
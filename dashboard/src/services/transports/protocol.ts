@@ -0,0 +1,137 @@
+import {
+  ErrorMessage,
+  REALTIME_PROTOCOL_VERSION,
+  ServerHelloMessage,
+  ServerMessage,
+  ServerMessageSchema,
+} from '@/types'
+import { TransportHandlers } from './types'
+
+/**
+ * Time the server has to accept a session
+ */
+export const HANDSHAKE_TIMEOUT = 10000 // milliseconds
+
+/**
+ * Missed heartbeat intervals after which a connection counts as dead
+ */
+const MISSED_HEARTBEATS = 2.5
+
+/**
+ * Parses a server message from JSON text or an already parsed value, null if
+ * it is not one
+ */
+export function parseServerMessage(data: unknown): ServerMessage | null {
+  let value = data
+  if (typeof data === 'string') {
+    try {
+      value = JSON.parse(data)
+    } catch {
+      return null
+    }
+  }
+  const result = ServerMessageSchema.safeParse(value)
+  return result.success ? result.data : null
+}
+
+/**
+ * Describes a server error message
+ */
+export function describeServerError(message: ErrorMessage): string {
+  return `${message.code}: ${message.message}`
+}
+
+/**
+ * Checks the server's hello, returning why the session cannot go on
+ */
+export function checkServerHello(message: ServerHelloMessage): Error | null {
+  if (message.protocolVersion !== REALTIME_PROTOCOL_VERSION) {
+    return new Error(`Server speaks protocol version ${message.protocolVersion}, expected ${REALTIME_PROTOCOL_VERSION}`)
+  }
+  return null
+}
+
+/**
+ * Passes a message of an accepted session on to the handlers
+ *
+ * Returns the reason the session ends for fatal errors, null otherwise.
+ */
+export function dispatchServerMessage(message: ServerMessage, handlers: TransportHandlers): string | null {
+  switch (message.type) {
+    case 'data':
+      handlers.onRecords([message.record])
+      return null
+    case 'batch':
+      handlers.onRecords(message.records)
+      return null
+    case 'heartbeat':
+      handlers.onHeartbeat()
+      return null
+    case 'error':
+      if (message.fatal) return describeServerError(message)
+      handlers.onError(new Error(describeServerError(message)))
+      return null
+    case 'hello':
+      // Repeated hellos carry nothing new
+      return null
+  }
+}
+
+/**
+ * Adds the client's hello fields to an SSE or long-polling URL
+ *
+ * Relative URLs are resolved against the page, so `/api/...` reaches the
+ * dashboard's own server.
+ */
+export function buildSessionUrl(
+  url: string,
+  session: { clientId: string; authToken?: string },
+  params: Record<string, string> = {}
+): string {
+  const base = typeof window !== 'undefined' ? window.location.href : 'http://localhost'
+  const sessionUrl = new URL(url, base)
+  sessionUrl.searchParams.set('protocolVersion', String(REALTIME_PROTOCOL_VERSION))
+  sessionUrl.searchParams.set('clientId', session.clientId)
+  if (session.authToken) sessionUrl.searchParams.set('token', session.authToken)
+  Object.entries(params).forEach(([key, value]) => sessionUrl.searchParams.set(key, value))
+  return sessionUrl.toString()
+}
+
+/**
+ * Creates an ID that tells this dashboard apart in server logs
+ */
+export function createClientId(): string {
+  return `dashboard-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Reports a connection as dead when nothing arrives for too long, since a
+ * dropped network often never delivers a close
+ */
+export class LivenessMonitor {
+  private timer: NodeJS.Timeout | null = null
+  private lastMessageAt = 0
+
+  public start(heartbeatInterval: number, onTimeout: () => void): void {
+    this.stop()
+    this.lastMessageAt = Date.now()
+    this.timer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > heartbeatInterval * MISSED_HEARTBEATS) {
+        this.stop()
+        onTimeout()
+      }
+    }, heartbeatInterval)
+  }
+
+  /** Records that something arrived */
+  public touch(): void {
+    this.lastMessageAt = Date.now()
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
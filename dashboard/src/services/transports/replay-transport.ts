@@ -0,0 +1,256 @@
+import { InverterRecord, ParseResult } from '@/types'
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+
+/**
+ * Playback speeds; `max` plays records as fast as the dashboard takes them
+ */
+export const REPLAY_SPEEDS = [1, 10, 60, 'max'] as const
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number]
+
+export interface ReplayOptions {
+  speed?: ReplaySpeed
+  /** Start over from the first record after the last one */
+  loop?: boolean
+  paused?: boolean
+  /** Simulated time to start at instead of the first record */
+  startAt?: Date
+}
+
+/**
+ * A parsed CSV export and how to play it
+ */
+export interface ReplaySource {
+  result: ParseResult
+  options: ReplayOptions
+}
+
+/**
+ * Where playback is
+ */
+export interface ReplayState {
+  playing: boolean
+  /** The last record has been played and looping is off */
+  ended: boolean
+  speed: ReplaySpeed
+  loop: boolean
+  /** Simulated time */
+  clock: Date
+  start: Date
+  end: Date
+  /** Records played so far */
+  played: number
+  total: number
+  /** Site zone of the records, for showing the clock */
+  timeZone?: string
+}
+
+/**
+ * Receives playback changes
+ */
+export interface ReplayListener {
+  onStateChange: (state: ReplayState) => void
+  /** Playback jumped back in time, so records received so far are in its future */
+  onRewind: () => void
+}
+
+interface TimelineEntry {
+  time: number
+  record: InverterRecord
+}
+
+/**
+ * Milliseconds between playback steps
+ */
+const TICK_INTERVAL = 250
+
+/**
+ * Records played per step at `max` speed
+ */
+const MAX_SPEED_BATCH = 200
+
+/**
+ * Plays back the records of a parsed CSV export in timestamp order, as if
+ * they were arriving live
+ *
+ * The simulated clock advances with real time times the speed, and each step
+ * hands on the records it passed. Records without a timestamp are skipped.
+ */
+export class ReplayTransport implements RealtimeTransport {
+  public readonly kind = 'replay' as const
+  private handlers: TransportHandlers | null = null
+  private listeners = new Set<ReplayListener>()
+  private timeline: TimelineEntry[]
+  private next = 0
+  private clock = 0
+  private lastTick = 0
+  private timer: NodeJS.Timeout | null = null
+  private speed: ReplaySpeed
+  private loop: boolean
+  private paused: boolean
+  private startAt?: Date
+
+  constructor(config: TransportConfig) {
+    const records = config.replay?.result.data ?? []
+    const options = config.replay?.options ?? {}
+    this.timeline = records
+      .map(record => ({ time: new Date(record.userRecord.timestamp.datetime ?? NaN).getTime(), record }))
+      .filter(entry => !Number.isNaN(entry.time))
+      // Stable, so records of several devices at the same time keep their order
+      .sort((a, b) => a.time - b.time)
+    this.speed = options.speed ?? 1
+    this.loop = options.loop ?? false
+    this.paused = options.paused ?? false
+    this.startAt = options.startAt
+  }
+
+  public async connect(handlers: TransportHandlers): Promise<void> {
+    if (this.timeline.length === 0) {
+      throw new Error('The CSV export has no timestamped records to replay')
+    }
+
+    this.handlers = handlers
+    this.clock = this.timeline[0].time
+    this.next = 0
+    if (this.startAt) this.seek(this.startAt)
+    if (!this.paused) this.play()
+    this.emitState()
+  }
+
+  public disconnect(): void {
+    this.stopTimer()
+    this.handlers = null
+  }
+
+  public sendHeartbeat(): void {
+    // Playback runs in-process, so it is alive as long as we are
+    this.handlers?.onHeartbeat()
+  }
+
+  /**
+   * Adds a listener, returning a function that removes it
+   */
+  public subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public getState(): ReplayState {
+    const first = this.timeline[0]
+    const last = this.timeline[this.timeline.length - 1]
+    return {
+      playing: this.timer !== null,
+      ended: this.isEnded(),
+      speed: this.speed,
+      loop: this.loop,
+      clock: new Date(this.clock),
+      start: new Date(first?.time ?? 0),
+      end: new Date(last?.time ?? 0),
+      played: this.next,
+      total: this.timeline.length,
+      timeZone: first?.record.userRecord.timestamp.timeZone,
+    }
+  }
+
+  public play(): void {
+    this.paused = false
+    if (!this.handlers || this.timer) return
+    // Playing again after the end starts over
+    if (this.isEnded()) this.seek(new Date(this.timeline[0].time))
+
+    this.lastTick = Date.now()
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL)
+    this.emitState()
+  }
+
+  public pause(): void {
+    this.paused = true
+    this.stopTimer()
+    this.emitState()
+  }
+
+  public setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed
+    this.emitState()
+  }
+
+  public setLoop(loop: boolean): void {
+    this.loop = loop
+    this.emitState()
+  }
+
+  /**
+   * Moves the simulated clock, then hands on each device's latest record at
+   * that time so the dashboard shows the site as it was
+   */
+  public seek(time: Date): void {
+    const first = this.timeline[0].time
+    const last = this.timeline[this.timeline.length - 1].time
+    const target = Math.min(Math.max(time.getTime(), first), last)
+
+    if (target < this.clock) this.listeners.forEach(listener => listener.onRewind())
+    this.clock = target
+    this.next = this.timeline.findIndex(entry => entry.time > target)
+    if (this.next === -1) this.next = this.timeline.length
+
+    const latest = new Map<string, InverterRecord>()
+    for (let i = this.next - 1; i >= 0; i--) {
+      const { record } = this.timeline[i]
+      if (!latest.has(record.userRecord.id)) latest.set(record.userRecord.id, record)
+    }
+    this.handlers?.onRecords([...latest.values()].reverse())
+
+    this.lastTick = Date.now()
+    if (this.isEnded()) this.stopTimer()
+    this.emitState()
+  }
+
+  private tick(): void {
+    const now = Date.now()
+    const elapsed = now - this.lastTick
+    this.lastTick = now
+
+    let until: number
+    if (this.speed === 'max') {
+      until = Math.min(this.next + MAX_SPEED_BATCH, this.timeline.length)
+      this.clock = this.timeline[until - 1].time
+    } else {
+      this.clock = Math.min(this.clock + elapsed * this.speed, this.timeline[this.timeline.length - 1].time)
+      until = this.next
+      while (until < this.timeline.length && this.timeline[until].time <= this.clock) until++
+    }
+
+    const batch = this.timeline.slice(this.next, until).map(entry => entry.record)
+    this.next = until
+    if (batch.length > 0) this.handlers?.onRecords(batch)
+
+    if (this.next >= this.timeline.length) {
+      if (this.loop) {
+        this.listeners.forEach(listener => listener.onRewind())
+        this.clock = this.timeline[0].time
+        this.next = 0
+      } else {
+        this.stopTimer()
+      }
+    }
+    this.emitState()
+  }
+
+  private isEnded(): boolean {
+    return this.next >= this.timeline.length
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private emitState(): void {
+    if (!this.handlers) return
+    const state = this.getState()
+    this.listeners.forEach(listener => listener.onStateChange(state))
+  }
+}
@@ -0,0 +1,56 @@
+import { DataGenerator } from '../data-generator'
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+
+/**
+ * Generates simulated records locally, for development and demos
+ */
+export class SimulatorTransport implements RealtimeTransport {
+  public readonly kind = 'simulator' as const
+  private dataGenerator = new DataGenerator()
+  private handlers: TransportHandlers | null = null
+  private updateTimer: NodeJS.Timeout | null = null
+  private updateInterval: number
+
+  constructor(config: TransportConfig) {
+    this.updateInterval = config.updateInterval
+  }
+
+  public async connect(handlers: TransportHandlers): Promise<void> {
+    this.handlers = handlers
+    this.startUpdates()
+  }
+
+  public disconnect(): void {
+    this.stopUpdates()
+    this.handlers = null
+  }
+
+  public sendHeartbeat(): void {
+    // The simulator runs in-process, so it is alive as long as we are
+    this.handlers?.onHeartbeat()
+  }
+
+  public setUpdateInterval(interval: number): void {
+    this.updateInterval = interval
+    if (this.handlers) this.startUpdates()
+  }
+
+  private startUpdates(): void {
+    this.stopUpdates()
+    this.updateTimer = setInterval(() => this.emitRecord(), this.updateInterval)
+
+    // Generate initial data
+    this.emitRecord()
+  }
+
+  private stopUpdates(): void {
+    if (this.updateTimer) {
+      clearInterval(this.updateTimer)
+      this.updateTimer = null
+    }
+  }
+
+  private emitRecord(): void {
+    this.handlers?.onRecords([this.dataGenerator.generateRealtimeData()])
+  }
+}
@@ -0,0 +1,57 @@
+import { RealtimeTransportKind } from '@/types'
+import type { ReplaySource } from './replay-transport'
+
+/**
+ * Callbacks a transport reports to
+ */
+export interface TransportHandlers {
+  /** Records as received; the service validates them */
+  onRecords: (records: unknown[]) => void
+  /** The remote side sent a heartbeat */
+  onHeartbeat: () => void
+  /** The connection dropped after it was established */
+  onClose: (reason: string) => void
+  /** A problem that did not end the connection */
+  onError: (error: Error) => void
+}
+
+/**
+ * A source of live records behind WebSocketService
+ */
+export interface RealtimeTransport {
+  readonly kind: RealtimeTransportKind
+
+  /** Opens the connection, resolving once records can flow */
+  connect(handlers: TransportHandlers): Promise<void>
+
+  /** Closes the connection; no handler is called afterwards */
+  disconnect(): void
+
+  /** Sends a heartbeat to the remote side, if it has one */
+  sendHeartbeat(): void
+
+  /** Changes how often records arrive, if the transport controls that */
+  setUpdateInterval?(interval: number): void
+}
+
+/**
+ * Settings every transport is created from
+ */
+export interface TransportConfig {
+  updateInterval: number
+  heartbeatInterval: number
+  /** WebSocket URL */
+  url: string
+  /** Server-Sent Events URL */
+  sseUrl: string
+  /** Long-polling URL */
+  pollUrl: string
+  /** MQTT-over-WebSocket broker URL */
+  mqttUrl: string
+  /** MQTT topic filters to subscribe to */
+  mqttTopics: string[]
+  mqttUsername?: string
+  authToken?: string
+  /** Parsed CSV export played by the replay transport */
+  replay?: ReplaySource
+}
@@ -0,0 +1,144 @@
+import { ClientMessage, REALTIME_PROTOCOL_VERSION } from '@/types'
+import { RealtimeTransport, TransportConfig, TransportHandlers } from './types'
+import {
+  checkServerHello,
+  createClientId,
+  describeServerError,
+  dispatchServerMessage,
+  HANDSHAKE_TIMEOUT,
+  LivenessMonitor,
+  parseServerMessage,
+} from './protocol'
+
+/**
+ * Streams records from a server speaking the real-time protocol
+ * (see `@/types/realtime-protocol`)
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  public readonly kind = 'websocket' as const
+  private config: TransportConfig
+  private clientId = createClientId()
+  private socket: WebSocket | null = null
+  private handlers: TransportHandlers | null = null
+  private liveness = new LivenessMonitor()
+  private closeReason: string | null = null
+
+  constructor(config: TransportConfig) {
+    this.config = config
+  }
+
+  public connect(handlers: TransportHandlers): Promise<void> {
+    this.disconnect()
+
+    return new Promise((resolve, reject) => {
+      let settled = false
+      let socket: WebSocket
+      try {
+        socket = new WebSocket(this.config.url)
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)))
+        return
+      }
+      this.socket = socket
+      this.closeReason = null
+
+      const handshakeTimer = setTimeout(() => fail(new Error('Server did not answer hello')), HANDSHAKE_TIMEOUT)
+
+      const fail = (error: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(handshakeTimer)
+        this.socket = null
+        socket.close()
+        reject(error)
+      }
+
+      const accept = (heartbeatInterval: number) => {
+        settled = true
+        clearTimeout(handshakeTimer)
+        this.handlers = handlers
+        this.liveness.start(heartbeatInterval, () => {
+          this.closeReason = 'No heartbeat from server'
+          this.socket?.close(4000, 'Heartbeat timeout')
+        })
+        resolve()
+      }
+
+      socket.onopen = () => {
+        this.send({
+          type: 'hello',
+          protocolVersion: REALTIME_PROTOCOL_VERSION,
+          clientId: this.clientId,
+          ...(this.config.authToken ? { token: this.config.authToken } : {})
+        })
+      }
+
+      socket.onmessage = event => {
+        if (this.socket !== socket) return
+        this.liveness.touch()
+
+        const message = parseServerMessage(event.data)
+        if (!message) {
+          handlers.onError(new Error('Ignoring malformed message from server'))
+          return
+        }
+
+        if (!settled) {
+          // Nothing but hello or error is expected before the session is accepted
+          if (message.type === 'error') {
+            fail(new Error(describeServerError(message)))
+          } else if (message.type === 'hello') {
+            const error = checkServerHello(message)
+            if (error) fail(error)
+            else accept(message.heartbeatInterval ?? this.config.heartbeatInterval)
+          }
+          return
+        }
+
+        if (this.handlers) {
+          // The server closes the socket after a fatal error; report this rather than the close code
+          this.closeReason = dispatchServerMessage(message, this.handlers) ?? this.closeReason
+        }
+      }
+
+      socket.onerror = () => {
+        fail(new Error(`Could not connect to ${this.config.url}`))
+      }
+
+      socket.onclose = event => {
+        if (!settled) {
+          fail(new Error(event.reason || `Connection to ${this.config.url} closed (code ${event.code})`))
+          return
+        }
+        if (this.socket !== socket) return
+
+        const reason = this.closeReason ?? (event.reason || `Connection closed (code ${event.code})`)
+        const { handlers: currentHandlers } = this
+        this.teardown()
+        currentHandlers?.onClose(reason)
+      }
+    })
+  }
+
+  public disconnect(): void {
+    const { socket } = this
+    this.teardown()
+    socket?.close(1000, 'Client disconnected')
+  }
+
+  public sendHeartbeat(): void {
+    this.send({ type: 'heartbeat', timestamp: new Date().toISOString() })
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  private teardown(): void {
+    this.liveness.stop()
+    this.socket = null
+    this.handlers = null
+  }
+}
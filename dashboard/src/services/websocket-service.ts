@@ -1,18 +1,45 @@
 import { InverterRecord } from '@/types/inverter-data'
+import { ParseResult, RealtimeTransportKind } from '@/types'
 import { DataGenerator } from './data-generator'
+import {
+  createTransport,
+  RealtimeTransport,
+  ReplayOptions,
+  ReplaySource,
+  ReplaySpeed,
+  ReplayState,
+  ReplayTransport
+} from './transports'
+import { DEFAULT_REALTIME_SETTINGS } from './realtime-settings'
+import { LegacySimulatorRecord, normalizeRecord } from '@/lib/record-adapters'
+import { validateInverterRecord } from '@/lib/schema-validation'
 
 interface WebSocketConfig {
   updateInterval: number // milliseconds
   maxRetries: number
   reconnectDelay: number // milliseconds
   heartbeatInterval: number // milliseconds
+  transport: RealtimeTransportKind
+  url: string // server URL for the websocket transport
+  sseUrl: string // server URL for the sse transport
+  pollUrl: string // server URL for the longpoll transport
+  mqttUrl: string // broker URL for the mqtt transport
+  mqttTopics: string[]
+  mqttUsername?: string
+  authToken?: string
 }
 
-interface ConnectionStatus {
+/**
+ * Config keys that need a new connection when they change
+ */
+const CONNECTION_KEYS = ['transport', 'url', 'sseUrl', 'pollUrl', 'mqttUrl', 'mqttTopics', 'mqttUsername', 'authToken'] as const
+
+export interface ConnectionStatus {
   connected: boolean
   lastUpdate: Date | null
   retryCount: number
   error: string | null
+  transport: RealtimeTransportKind | null // transport in use while connected
 }
 
 type EventCallback<T = any> = (data: T) => void
@@ -21,11 +48,15 @@ export class WebSocketService {
   private dataGenerator: DataGenerator
   private config: WebSocketConfig
   private status: ConnectionStatus
-  private updateTimer: NodeJS.Timeout | null = null
+  private transport: RealtimeTransport | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
   private heartbeatTimer: NodeJS.Timeout | null = null
   private eventListeners: Map<string, EventCallback[]> = new Map()
   private dataCache: InverterRecord[] = []
   private maxCacheSize = 1000 // Keep last 1000 records
+  private replay: ReplaySource | null = null
+  private replayState: ReplayState | null = null
+  private liveTransport: RealtimeTransportKind = DEFAULT_REALTIME_SETTINGS.transport // restored when a replay stops
 
   constructor(config?: Partial<WebSocketConfig>) {
     this.dataGenerator = new DataGenerator()
@@ -34,13 +65,22 @@ export class WebSocketService {
       maxRetries: 5,
       reconnectDelay: 2000,
       heartbeatInterval: 30000, // 30 seconds
+      transport: DEFAULT_REALTIME_SETTINGS.transport,
+      url: DEFAULT_REALTIME_SETTINGS.url,
+      sseUrl: DEFAULT_REALTIME_SETTINGS.sseUrl,
+      pollUrl: DEFAULT_REALTIME_SETTINGS.pollUrl,
+      mqttUrl: DEFAULT_REALTIME_SETTINGS.mqttUrl,
+      mqttTopics: DEFAULT_REALTIME_SETTINGS.mqttTopics,
+      mqttUsername: DEFAULT_REALTIME_SETTINGS.mqttUsername,
+      authToken: DEFAULT_REALTIME_SETTINGS.authToken,
       ...config
     }
     this.status = {
       connected: false,
       lastUpdate: null,
       retryCount: 0,
-      error: null
+      error: null,
+      transport: null
     }
   }
 
@@ -81,34 +121,73 @@ export class WebSocketService {
       console.warn('WebSocket service already connected')
       return
     }
+    if (this.transport) {
+      // A connection attempt is already under way
+      return
+    }
+
+    const transport = createTransport(this.config.transport, {
+      updateInterval: this.config.updateInterval,
+      heartbeatInterval: this.config.heartbeatInterval,
+      url: this.config.url,
+      sseUrl: this.config.sseUrl,
+      pollUrl: this.config.pollUrl,
+      mqttUrl: this.config.mqttUrl,
+      mqttTopics: this.config.mqttTopics,
+      mqttUsername: this.config.mqttUsername,
+      authToken: this.config.authToken,
+      replay: this.replay ?? undefined
+    })
+    this.transport = transport
+
+    if (transport instanceof ReplayTransport) {
+      transport.subscribe({
+        onStateChange: state => this.handleReplayStateChange(transport, state),
+        // Records from the replay's future would show up in charts and history
+        onRewind: () => this.clearCache()
+      })
+    }
 
     try {
+      await transport.connect({
+        onRecords: records => records.forEach(record => this.handleIncomingRecord(record)),
+        onHeartbeat: () => this.emit('heartbeat', { timestamp: new Date() }),
+        onClose: reason => this.handleConnectionError(new Error(reason)),
+        onError: error => this.emit('error', error)
+      })
+
+      // Disconnected while the connection was being set up
+      if (this.transport !== transport) return
+
       this.status.connected = true
       this.status.retryCount = 0
       this.status.error = null
       this.status.lastUpdate = new Date()
+      this.status.transport = transport.kind
 
       this.emit('connectionStateChange', this.status)
       this.emit('connected')
 
-      // Start data updates
-      this.startDataUpdates()
       this.startHeartbeat()
 
-      console.log('WebSocket service connected successfully')
+      console.log(`WebSocket service connected (${transport.kind})`)
     } catch (error) {
+      if (this.transport !== transport) return
       this.handleConnectionError(error as Error)
     }
   }
 
   public disconnect(): void {
+    this.stopReconnect()
+    this.stopTransport()
+    this.stopHeartbeat()
+
     if (!this.status.connected) {
       return
     }
 
     this.status.connected = false
-    this.stopDataUpdates()
-    this.stopHeartbeat()
+    this.status.transport = null
 
     this.emit('connectionStateChange', this.status)
     this.emit('disconnected')
@@ -127,7 +206,9 @@ export class WebSocketService {
     this.status.retryCount++
     this.emit('reconnecting', { attempt: this.status.retryCount })
 
-    setTimeout(async () => {
+    this.stopReconnect()
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
       try {
         await this.connect()
       } catch (error) {
@@ -136,12 +217,20 @@ export class WebSocketService {
     }, this.config.reconnectDelay * this.status.retryCount) // Exponential backoff
   }
 
+  private stopReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
   private handleConnectionError(error: Error): void {
     console.error('WebSocket connection error:', error)
     this.status.connected = false
     this.status.error = error.message
+    this.status.transport = null
 
-    this.stopDataUpdates()
+    this.stopTransport()
     this.stopHeartbeat()
 
     this.emit('connectionStateChange', this.status)
@@ -153,45 +242,34 @@ export class WebSocketService {
     }
   }
 
-  // Data update management
-  private startDataUpdates(): void {
-    if (this.updateTimer) {
-      clearInterval(this.updateTimer)
-    }
-
-    this.updateTimer = setInterval(() => {
-      this.generateAndEmitData()
-    }, this.config.updateInterval)
-
-    // Generate initial data
-    this.generateAndEmitData()
-  }
-
-  private stopDataUpdates(): void {
-    if (this.updateTimer) {
-      clearInterval(this.updateTimer)
-      this.updateTimer = null
-    }
+  private stopTransport(): void {
+    const { transport } = this
+    this.transport = null
+    transport?.disconnect()
   }
 
-  private generateAndEmitData(): void {
-    try {
-      const newData = this.dataGenerator.generateRealtimeData()
+  // Incoming data
+  private handleIncomingRecord(record: unknown): void {
+    const { data: newData, errors } = validateInverterRecord(
+      normalizeRecord(record as InverterRecord | LegacySimulatorRecord)
+    )
 
-      // Update cache
-      this.addToCache(newData)
+    // Drop messages that don't match the record schema instead of passing them on
+    if (!newData) {
+      console.warn('Discarding invalid realtime record:', errors)
+      this.emit('invalidData', errors)
+      return
+    }
 
-      // Update status
-      this.status.lastUpdate = new Date()
+    // Update cache
+    this.addToCache(newData)
 
-      // Emit data to listeners
-      this.emit('data', newData)
-      this.emit('connectionStateChange', this.status)
+    // Update status
+    this.status.lastUpdate = new Date()
 
-    } catch (error) {
-      console.error('Error generating data:', error)
-      this.handleConnectionError(error as Error)
-    }
+    // Emit data to listeners
+    this.emit('data', newData)
+    this.emit('connectionStateChange', this.status)
   }
 
   // Heartbeat management
@@ -214,7 +292,8 @@ export class WebSocketService {
 
   private sendHeartbeat(): void {
     if (this.status.connected) {
-      this.emit('heartbeat', { timestamp: new Date() })
+      // Transports report the answer through onHeartbeat
+      this.transport?.sendHeartbeat()
     }
   }
 
@@ -236,18 +315,124 @@ export class WebSocketService {
   }
 
   public getHistoricalData(hoursBack: number = 24): InverterRecord[] {
-    return this.dataGenerator.generateHistoricalData(hoursBack)
+    if (this.config.transport === 'simulator') {
+      return this.dataGenerator.generateHistoricalData(hoursBack)
+    }
+
+    // Servers only stream live data, so history is what has been received.
+    // A replay's history ends at its simulated clock rather than now.
+    const now = this.config.transport === 'replay' && this.replayState ? this.replayState.clock.getTime() : Date.now()
+    const since = now - hoursBack * 60 * 60 * 1000
+    return this.dataCache.filter(record => {
+      const { datetime } = record.userRecord.timestamp
+      return datetime !== undefined && new Date(datetime).getTime() >= since
+    })
+  }
+
+  // CSV replay
+  /**
+   * Plays back a parsed CSV export through the same pipeline as live data,
+   * replacing the live connection until stopReplay
+   */
+  public async startReplay(result: ParseResult, options: ReplayOptions = {}): Promise<void> {
+    if (this.config.transport !== 'replay') {
+      this.liveTransport = this.config.transport
+    }
+
+    this.disconnect()
+    this.replay = { result, options: { ...options } }
+    this.replayState = null
+    this.clearCache()
+    this.config = { ...this.config, transport: 'replay' }
+    this.status.retryCount = 0
+    this.emit('configUpdated', this.config)
+
+    await this.connect()
+  }
+
+  /**
+   * Ends a replay and goes back to the live data source
+   */
+  public stopReplay(): void {
+    if (this.config.transport !== 'replay') return
+    this.updateConfig({ transport: this.liveTransport })
+  }
+
+  public getReplayState(): ReplayState | null {
+    return this.replayState ? { ...this.replayState } : null
+  }
+
+  public pauseReplay(): void {
+    this.updateReplayOptions({ paused: true })
+    this.getReplayTransport()?.pause()
+  }
+
+  public resumeReplay(): void {
+    this.updateReplayOptions({ paused: false })
+    this.getReplayTransport()?.play()
+  }
+
+  public setReplaySpeed(speed: ReplaySpeed): void {
+    this.updateReplayOptions({ speed })
+    this.getReplayTransport()?.setSpeed(speed)
+  }
+
+  public setReplayLoop(loop: boolean): void {
+    this.updateReplayOptions({ loop })
+    this.getReplayTransport()?.setLoop(loop)
+  }
+
+  public seekReplay(time: Date): void {
+    this.updateReplayOptions({ startAt: time })
+    this.getReplayTransport()?.seek(time)
+  }
+
+  private getReplayTransport(): ReplayTransport | null {
+    return this.transport instanceof ReplayTransport ? this.transport : null
+  }
+
+  private updateReplayOptions(options: ReplayOptions): void {
+    if (this.replay) {
+      this.replay.options = { ...this.replay.options, ...options }
+    }
+  }
+
+  private handleReplayStateChange(transport: ReplayTransport, state: ReplayState): void {
+    if (this.transport !== transport) return
+    // A reconnect picks up where playback was
+    this.updateReplayOptions({ startAt: state.clock })
+    this.setReplayState(state)
+  }
+
+  private setReplayState(state: ReplayState | null): void {
+    this.replayState = state
+    this.emit('replayStateChange', state)
   }
 
   // Configuration management
   public updateConfig(newConfig: Partial<WebSocketConfig>): void {
-    const oldInterval = this.config.updateInterval
+    const oldConfig = this.config
 
     this.config = { ...this.config, ...newConfig }
 
-    // Restart updates if interval changed and service is connected
-    if (newConfig.updateInterval && newConfig.updateInterval !== oldInterval && this.status.connected) {
-      this.startDataUpdates()
+    // Switching to a live source ends a replay, and its records go with it
+    if (this.config.transport !== 'replay' && this.replay) {
+      this.replay = null
+      this.setReplayState(null)
+      this.clearCache()
+    }
+
+    // Compared by value, as topic lists arrive as new arrays
+    const connectionChanged = CONNECTION_KEYS.some(
+      key => JSON.stringify(this.config[key]) !== JSON.stringify(oldConfig[key])
+    )
+    if (connectionChanged && (this.status.connected || this.transport)) {
+      // Switch sources on a fresh connection
+      this.disconnect()
+      this.status.retryCount = 0
+      this.connect()
+    } else if (newConfig.updateInterval && newConfig.updateInterval !== oldConfig.updateInterval) {
+      this.transport?.setUpdateInterval?.(newConfig.updateInterval)
     }
 
     this.emit('configUpdated', this.config)
@@ -1,11 +1,23 @@
 /**
  * CarryGreen Dashboard Types
  *
- * Central export file for all TypeScript types and interfaces
+ * Central export file for all TypeScript types, interfaces and their zod schemas
  */
 
 // Inverter data types
 export * from './inverter-data';
 
+// Validation profile types
+export * from './validation-profile';
+
+// Site time zone types
+export * from './site-time-zone';
+
+// Real-time protocol types
+export * from './realtime-protocol';
+
+// Modbus gateway types
+export * from './modbus';
+
 // Additional types can be added here as the project grows
 export type { } from './inverter-data';
\ No newline at end of file
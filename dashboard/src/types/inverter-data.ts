@@ -1,217 +1,396 @@
 /**
  * CarryGreen Inverter Data Types
  *
- * TypeScript interfaces for parsing and handling inverter data from CSV files.
- * These interfaces represent the structure of data collected from inverter systems.
+ * Zod schemas for parsing and handling inverter data from CSV files, with the
+ * TypeScript types derived from them so the runtime checks and the static
+ * types cannot drift apart.
+ * These schemas represent the structure of data collected from inverter systems.
  */
 
+import { z } from 'zod';
+
+/**
+ * Numeric reading, null when the device did not report a value
+ * (an empty cell or `-`), so it can be told apart from a real 0.
+ */
+const reading = () => z.number().nullable();
+
 /**
  * Timestamp information for each data record
  */
-export interface Timestamp {
+export const TimestampSchema = z.object({
   /** Full date string in YYYY-MM-DD format */
-  date: string;
+  date: z.string(),
   /** Time string in HH:MM format */
-  time: string;
+  time: z.string(),
   /** Combined datetime as ISO string for calculations */
-  datetime?: string;
-}
+  datetime: z.iso.datetime().optional(),
+  /** IANA zone the date and time are expressed in (the site's zone) */
+  timeZone: z.string().optional(),
+});
+export type Timestamp = z.infer<typeof TimestampSchema>;
+
+/**
+ * Blackout share reported by the device
+ *
+ * The export's `Blackout` column holds `-` when the device did not report a
+ * value, or a percentage from `0%` to `100%`.
+ */
+export const BlackoutStatusSchema = z.object({
+  /** Whether the device reported a blackout value for this row */
+  reported: z.boolean(),
+  /** Blackout ratio from 0 to 1, null when not reported */
+  ratio: z.number().min(0).max(1).nullable(),
+});
+export type BlackoutStatus = z.infer<typeof BlackoutStatusSchema>;
 
 /**
  * User and device identification information
  */
-export interface UserRecord {
+export const UserRecordSchema = z.object({
   /** Unique device identifier */
-  id: string;
+  id: z.string(),
   /** Device/inverter name */
-  name: string;
+  name: z.string(),
   /** Timestamp information */
-  timestamp: Timestamp;
-  /** Blackout status indicator */
-  blackout: boolean | null;
-}
+  timestamp: TimestampSchema,
+  /** Blackout share for this row */
+  blackout: BlackoutStatusSchema,
+});
+export type UserRecord = z.infer<typeof UserRecordSchema>;
 
 /**
  * Inverter supply and total energy information
  */
-export interface InverterSupply {
+export const InverterSupplySchema = z.object({
   /** Total kilowatt hours supplied */
-  totalKWh: number;
-}
+  totalKWh: reading(),
+});
+export type InverterSupply = z.infer<typeof InverterSupplySchema>;
 
 /**
  * Photovoltaic (Solar Panel) data
  */
-export interface PVData {
+export const PVDataSchema = z.object({
   /** Voltage in volts */
-  voltage: number;
+  voltage: reading(),
   /** Current in amperes */
-  current: number;
+  current: reading(),
   /** Power in watts */
-  powerW: number;
+  powerW: reading(),
   /** Daily watt hours */
-  dailyWh: number;
+  dailyWh: reading(),
   /** Monthly watt days */
-  monthlyWd: number;
+  monthlyWd: reading(),
   /** Yearly watt months */
-  yearlyWm: number;
+  yearlyWm: reading(),
   /** Total kilowatt hours generated */
-  totalKWh: number;
-}
+  totalKWh: reading(),
+});
+export type PVData = z.infer<typeof PVDataSchema>;
 
 /**
  * Battery system data
  */
-export interface BatteryData {
+export const BatteryDataSchema = z.object({
   /** Battery voltage in volts */
-  voltage: number;
+  voltage: reading(),
   /** Battery current in amperes */
-  current: number;
+  current: reading(),
   /** Battery temperature in degrees Celsius */
-  temperature: number;
+  temperature: reading(),
   /** State of Charge as percentage (0-100) */
-  soc: number;
-}
+  soc: reading(),
+});
+export type BatteryData = z.infer<typeof BatteryDataSchema>;
+
+/**
+ * Operating state of an AC source (inverter output or grid)
+ */
+export const SourceStateSchema = z.enum(['online', 'offline', 'unknown']);
+export type SourceState = z.infer<typeof SourceStateSchema>;
 
 /**
  * Inverter system data
  */
-export interface InverterData {
+export const InverterDataSchema = z.object({
   /** Output voltage in volts */
-  voltage: number;
+  voltage: reading(),
   /** Output current in amperes */
-  current: number;
+  current: reading(),
   /** Output frequency in Hz */
-  frequency: number;
-}
+  frequency: reading(),
+  /** Whether the inverter output is live (0 V / 0 Hz means offline) */
+  state: SourceStateSchema,
+});
+export type InverterData = z.infer<typeof InverterDataSchema>;
 
 /**
  * Grid connection data
  */
-export interface GridData {
+export const GridDataSchema = z.object({
   /** Grid voltage in volts */
-  voltage: number;
+  voltage: reading(),
   /** Grid current in amperes */
-  current: number;
+  current: reading(),
   /** Grid frequency in Hz */
-  frequency: number;
-}
+  frequency: reading(),
+  /** Whether the grid is live (0 V / 0 Hz means offline) */
+  state: SourceStateSchema,
+});
+export type GridData = z.infer<typeof GridDataSchema>;
 
 /**
  * System status information
  */
-export interface SystemStatus {
+export const SystemStatusSchema = z.object({
   /** Hexadecimal status code */
-  hex: string;
-  /** Parsed status flags (to be implemented) */
-  flags?: {
-    [key: string]: boolean;
-  };
-}
+  hex: z.string(),
+  /** Status flags decoded from the hex code (see lib/csv/status-flags) */
+  flags: z.record(z.string(), z.boolean()).optional(),
+});
+export type SystemStatus = z.infer<typeof SystemStatusSchema>;
 
 /**
  * Complete inverter data record
  * Represents a single row of data from the CSV file
  */
-export interface InverterRecord {
+export const InverterRecordSchema = z.object({
   /** User and device information */
-  userRecord: UserRecord;
+  userRecord: UserRecordSchema,
   /** Inverter supply information */
-  inverterSupply: InverterSupply;
+  inverterSupply: InverterSupplySchema,
   /** Photovoltaic data */
-  pv: PVData;
+  pv: PVDataSchema,
   /** Battery data */
-  battery: BatteryData;
+  battery: BatteryDataSchema,
   /** Inverter data */
-  inverter: InverterData;
+  inverter: InverterDataSchema,
   /** Grid data */
-  grid: GridData;
+  grid: GridDataSchema,
   /** System status */
-  status: SystemStatus;
-}
+  status: SystemStatusSchema,
+});
+export type InverterRecord = z.infer<typeof InverterRecordSchema>;
 
 /**
  * Raw CSV row data (before parsing)
  */
-export interface RawCSVRow {
-  ID: string;
-  Date: string;
-  Time: string;
-  Name: string;
-  Blackout: string;
-  "Total kWh": string;
-  "Voltage": string; // PV Voltage
-  "Current": string; // PV Current
-  "Power W": string;
-  "Daily Wh": string;
-  "Monthly Wd": string;
-  "Yearly Wm": string;
-  "Total kWh_1": string; // PV Total kWh
-  "Voltage_1": string; // Battery Voltage
-  "Current_1": string; // Battery Current
-  "Temp": string;
-  "SOC": string;
-  "Voltage_2": string; // Inverter Voltage
-  "Current_2": string; // Inverter Current
-  "Hz": string; // Inverter Hz
-  "Voltage_3": string; // Grid Voltage
-  "Current_3": string; // Grid Current
-  "Hz_1": string; // Grid Hz
-  "Hex": string;
-}
+export const RawCSVRowSchema = z.object({
+  ID: z.string(),
+  Date: z.string(),
+  Time: z.string(),
+  Name: z.string(),
+  Blackout: z.string(),
+  "Total kWh": z.string(),
+  "Voltage": z.string(), // PV Voltage
+  "Current": z.string(), // PV Current
+  "Power W": z.string(),
+  "Daily Wh": z.string(),
+  "Monthly Wd": z.string(),
+  "Yearly Wm": z.string(),
+  "Total kWh_1": z.string(), // PV Total kWh
+  "Voltage_1": z.string(), // Battery Voltage
+  "Current_1": z.string(), // Battery Current
+  "Temp": z.string(),
+  "SOC": z.string(),
+  "Voltage_2": z.string(), // Inverter Voltage
+  "Current_2": z.string(), // Inverter Current
+  "Hz": z.string(), // Inverter Hz
+  "Voltage_3": z.string(), // Grid Voltage
+  "Current_3": z.string(), // Grid Current
+  "Hz_1": z.string(), // Grid Hz
+  "Hex": z.string(),
+});
+export type RawCSVRow = z.infer<typeof RawCSVRowSchema>;
+
+/**
+ * Severity of a parsing error
+ */
+export const ParseErrorSeveritySchema = z.enum(['error', 'warning', 'info']);
+export type ParseErrorSeverity = z.infer<typeof ParseErrorSeveritySchema>;
 
 /**
  * Parsing error information
  */
-export interface ParseError {
+export const ParseErrorSchema = z.object({
   /** Row number where error occurred */
-  row: number;
+  row: z.number().int(),
   /** Field name that caused the error */
-  field: string;
+  field: z.string(),
   /** Original value that couldn't be parsed */
-  value: string;
+  value: z.string(),
   /** Error message */
-  message: string;
+  message: z.string(),
   /** Error type */
-  type: 'validation' | 'conversion' | 'missing' | 'format';
-}
+  type: z.enum(['validation', 'conversion', 'missing', 'format']),
+  /** How serious the problem is; warnings flag implausible but usable values */
+  severity: ParseErrorSeveritySchema,
+});
+export type ParseError = z.infer<typeof ParseErrorSchema>;
 
 /**
  * Parsing result containing data and any errors
  */
-export interface ParseResult {
+export const ParseResultSchema = z.object({
   /** Successfully parsed records */
-  data: InverterRecord[];
+  data: z.array(InverterRecordSchema),
   /** Any errors encountered during parsing */
-  errors: ParseError[];
+  errors: z.array(ParseErrorSchema),
   /** Total number of rows processed */
-  totalRows: number;
+  totalRows: z.number().int().nonnegative(),
   /** Number of successfully parsed rows */
-  successfulRows: number;
-}
+  successfulRows: z.number().int().nonnegative(),
+});
+export type ParseResult = z.infer<typeof ParseResultSchema>;
+
+/**
+ * Progress of a streaming parse, reported after each chunk
+ */
+export const ParseProgressSchema = z.object({
+  /** Data rows parsed so far */
+  rowsProcessed: z.number().int().nonnegative(),
+  /** Position reached in the input */
+  bytesRead: z.number().nonnegative(),
+  /** Size of the input, when known */
+  totalBytes: z.number().nonnegative().nullable(),
+  /** Errors found so far */
+  errorCount: z.number().int().nonnegative(),
+  /** Warnings found so far */
+  warningCount: z.number().int().nonnegative(),
+});
+export type ParseProgress = z.infer<typeof ParseProgressSchema>;
+
+/**
+ * Dotted paths to the numeric readings of a record type
+ * (e.g. `pv.powerW`, `userRecord.blackout.ratio`)
+ */
+export type NumericFieldPath<T> = {
+  [K in keyof T & string]: T[K] extends number | null
+    ? K
+    : T[K] extends object
+      ? `${K}.${NumericFieldPath<T[K]>}`
+      : never;
+}[keyof T & string];
+
+/**
+ * Path to a numeric reading of an inverter record
+ */
+export type FieldPath = NumericFieldPath<InverterRecord>;
+
+/**
+ * Sections of a record holding numeric readings, by path prefix
+ */
+const READING_SECTIONS: Record<string, z.ZodObject> = {
+  inverterSupply: InverterSupplySchema,
+  pv: PVDataSchema,
+  battery: BatteryDataSchema,
+  inverter: InverterDataSchema,
+  grid: GridDataSchema,
+  'userRecord.blackout': BlackoutStatusSchema,
+};
+
+/**
+ * Every field path, generated from the record schemas in record order
+ */
+export const FieldPathSchema = z.enum(
+  Object.entries(READING_SECTIONS).flatMap(([prefix, section]) =>
+    Object.entries(section.shape)
+      .filter(([, field]) => field instanceof z.ZodNullable && field.unwrap() instanceof z.ZodNumber)
+      .map(([key]) => `${prefix}.${key}`)
+  ) as [FieldPath, ...FieldPath[]]
+);
+
+/**
+ * Fields that can be aggregated: any reading, plus `energy` measured by the
+ * device counters
+ */
+export const AggregationFieldSchema = z.enum([...FieldPathSchema.options, 'energy']);
+export type AggregationField = z.infer<typeof AggregationFieldSchema>;
+
+/**
+ * Calendar interval data is grouped by
+ *
+ * Sub-hour buckets are aligned to the hour, weeks are ISO weeks (Monday to
+ * Sunday) and quarters are calendar quarters, all in the site's time zone.
+ */
+export const AggregationIntervalSchema = z.enum([
+  'minute',
+  '5min',
+  '15min',
+  '30min',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+]);
+export type AggregationInterval = z.infer<typeof AggregationIntervalSchema>;
+
+/**
+ * How the readings of a field are combined within a period
+ *
+ * `pNN` is the NN-th percentile (e.g. `p95`, `p99.9`). `timeWeightedAverage`
+ * weights each reading by the time it was in force, so bursts of fast
+ * sampling do not dominate the result.
+ */
+export const AggregationMethodSchema = z.union([
+  z.enum([
+    'average',
+    'sum',
+    'min',
+    'max',
+    'median',
+    'stddev',
+    'first',
+    'last',
+    'count',
+    'timeWeightedAverage',
+  ]),
+  z.templateLiteral(['p', z.number()]),
+]);
+export type AggregationMethod = z.infer<typeof AggregationMethodSchema>;
 
 /**
  * Data aggregation options
  */
-export interface AggregationOptions {
+export const AggregationOptionsSchema = z.object({
   /** Time interval for aggregation */
-  interval: 'minute' | 'hour' | 'day' | 'month';
+  interval: AggregationIntervalSchema,
   /** Fields to aggregate */
-  fields?: Array<keyof PVData | keyof BatteryData | keyof InverterData | keyof GridData>;
-  /** Aggregation method */
-  method: 'average' | 'sum' | 'min' | 'max';
-}
+  fields: z.array(AggregationFieldSchema).optional(),
+  /** Aggregation method for fields without their own (defaults to `average`) */
+  method: AggregationMethodSchema.optional(),
+  /** Per-field aggregation methods, e.g. `{ 'battery.soc': 'average', 'pv.powerW': 'max' }` */
+  methods: z.partialRecord(AggregationFieldSchema, AggregationMethodSchema).optional(),
+});
+export type AggregationOptions = z.infer<typeof AggregationOptionsSchema>;
+
+/**
+ * Spread of a field's readings within a period, for drawing bands
+ */
+export const AggregatedFieldStatsSchema = z.object({
+  /** Lowest reading, null when nothing was reported */
+  min: z.number().nullable(),
+  /** Highest reading, null when nothing was reported */
+  max: z.number().nullable(),
+  /** Number of readings reported */
+  count: z.number().int().nonnegative(),
+});
+export type AggregatedFieldStats = z.infer<typeof AggregatedFieldStatsSchema>;
 
 /**
  * Aggregated data result
  */
-export interface AggregatedData {
+export const AggregatedDataSchema = z.object({
   /** Time period for this aggregation */
-  period: string;
+  period: z.string(),
   /** Aggregated values */
-  values: {
-    [field: string]: number;
-  };
+  values: z.record(z.string(), z.number().nullable()),
+  /** Min/max/count of each aggregated field */
+  stats: z.record(z.string(), AggregatedFieldStatsSchema),
   /** Number of records included in aggregation */
-  count: number;
-}
\ No newline at end of file
+  count: z.number().int().nonnegative(),
+});
+export type AggregatedData = z.infer<typeof AggregatedDataSchema>;
@@ -0,0 +1,78 @@
+/**
+ * CarryGreen Modbus Gateway Types
+ *
+ * The Modbus gateway polls inverters over Modbus TCP and streams the
+ * readings to dashboards. A register map says where each reading lives in
+ * an inverter's register space and how to scale it.
+ */
+
+import { z } from 'zod';
+import { FieldPathSchema } from './inverter-data';
+
+/**
+ * Register table: holding registers (function code 3) or input registers
+ * (function code 4)
+ */
+export const ModbusTableSchema = z.enum(['holding', 'input']);
+export type ModbusTable = z.infer<typeof ModbusTableSchema>;
+
+/**
+ * How a value is stored: 16-bit values take one register, 32-bit values two
+ */
+export const ModbusDataTypeSchema = z.enum(['uint16', 'int16', 'uint32', 'int32']);
+export type ModbusDataType = z.infer<typeof ModbusDataTypeSchema>;
+
+/**
+ * One reading in the register map
+ */
+export const ModbusRegisterSchema = z.object({
+  /** Record field the register holds, or `status` for the status word */
+  field: z.union([FieldPathSchema, z.literal('status')]),
+  table: ModbusTableSchema.default('holding'),
+  /** Zero-based register address */
+  address: z.number().int().min(0).max(65535),
+  type: ModbusDataTypeSchema.default('uint16'),
+  /** Multiplier from the raw value to the field's unit, e.g. 0.1 for decivolts */
+  scale: z.number().default(1),
+});
+export type ModbusRegister = z.infer<typeof ModbusRegisterSchema>;
+
+/**
+ * Where an inverter model keeps its readings
+ */
+export const ModbusRegisterMapSchema = z.object({
+  name: z.string(),
+  /** Word order of 32-bit values; `big` puts the high word first */
+  wordOrder: z.enum(['big', 'little']).default('big'),
+  registers: z.array(ModbusRegisterSchema).min(1),
+});
+export type ModbusRegisterMap = z.infer<typeof ModbusRegisterMapSchema>;
+
+/**
+ * An inverter reachable over Modbus TCP
+ */
+export const ModbusDeviceSchema = z.object({
+  /** Device ID used in records */
+  id: z.string().min(1),
+  name: z.string().optional(),
+  host: z.string().min(1),
+  port: z.number().int().positive().default(502),
+  /** Modbus unit (slave) ID; inverters behind one gateway differ only in this */
+  unitId: z.number().int().min(0).max(255).default(1),
+  /** IANA zone of the site, for record timestamps (the server's zone when omitted) */
+  timeZone: z.string().optional(),
+});
+export type ModbusDevice = z.infer<typeof ModbusDeviceSchema>;
+
+/**
+ * Settings of the Modbus gateway
+ */
+export const ModbusGatewayConfigSchema = z.object({
+  devices: z.array(ModbusDeviceSchema).min(1),
+  registerMap: ModbusRegisterMapSchema,
+  /** Milliseconds between polls of a device */
+  pollInterval: z.number().int().positive().default(5000),
+  /** Milliseconds to wait for a device's answer */
+  timeout: z.number().int().positive().default(3000),
+});
+export type ModbusGatewayConfig = z.infer<typeof ModbusGatewayConfigSchema>;
@@ -0,0 +1,161 @@
+/**
+ * CarryGreen Real-time Protocol Types
+ *
+ * JSON messages exchanged with a real-time data server. Over a WebSocket each
+ * text frame holds one message; Server-Sent Events carry one message per
+ * event, and long-polling returns a list of them per request. Every message
+ * has a `type`:
+ *
+ * - `hello`: the client opens with its protocol version and auth token; the
+ *   server answers with its own `hello` once the client is accepted. Over
+ *   SSE and long-polling the client's hello fields go in the query string.
+ * - `data`: one inverter record
+ * - `batch`: several records at once, e.g. the backlog sent after `hello`
+ * - `heartbeat`: sent by both sides to show the connection is alive
+ * - `error`: a problem with the session; `fatal` errors end it
+ *
+ * Records are checked against `InverterRecordSchema` one by one, so a bad
+ * record in a batch does not drop the others. See README.md for an example
+ * session.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Protocol version spoken by this dashboard
+ */
+export const REALTIME_PROTOCOL_VERSION = 1;
+
+/**
+ * Opening message of the client
+ */
+export const ClientHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocolVersion: z.number().int(),
+  /** Identifies the dashboard instance in server logs */
+  clientId: z.string().optional(),
+  /** Auth token; servers may reject the session without a valid one */
+  token: z.string().optional(),
+  /** Only stream these devices (all when omitted) */
+  devices: z.array(z.string()).optional(),
+});
+export type ClientHelloMessage = z.infer<typeof ClientHelloMessageSchema>;
+
+/**
+ * Heartbeat, sent by either side
+ */
+export const HeartbeatMessageSchema = z.object({
+  type: z.literal('heartbeat'),
+  /** ISO datetime the heartbeat was sent */
+  timestamp: z.string(),
+});
+export type HeartbeatMessage = z.infer<typeof HeartbeatMessageSchema>;
+
+/**
+ * Messages the client sends
+ */
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  ClientHelloMessageSchema,
+  HeartbeatMessageSchema,
+]);
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+/**
+ * The server's answer to the client's hello, accepting the session
+ */
+export const ServerHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocolVersion: z.number().int(),
+  serverId: z.string().optional(),
+  /** Milliseconds between the server's heartbeats */
+  heartbeatInterval: z.number().positive().optional(),
+});
+export type ServerHelloMessage = z.infer<typeof ServerHelloMessageSchema>;
+
+/**
+ * A single record
+ */
+export const DataMessageSchema = z.object({
+  type: z.literal('data'),
+  record: z.unknown(),
+});
+export type DataMessage = z.infer<typeof DataMessageSchema>;
+
+/**
+ * Several records, oldest first
+ */
+export const BatchMessageSchema = z.object({
+  type: z.literal('batch'),
+  records: z.array(z.unknown()),
+});
+export type BatchMessage = z.infer<typeof BatchMessageSchema>;
+
+/**
+ * A problem reported by the server
+ */
+export const ErrorMessageSchema = z.object({
+  type: z.literal('error'),
+  /** Machine-readable code, e.g. `unauthorized`, `unsupported_version`, `bad_message` */
+  code: z.string(),
+  message: z.string(),
+  /** The server closes the session after a fatal error */
+  fatal: z.boolean().default(false),
+});
+export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+
+/**
+ * Messages the server sends
+ */
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+  ServerHelloMessageSchema,
+  DataMessageSchema,
+  BatchMessageSchema,
+  HeartbeatMessageSchema,
+  ErrorMessageSchema,
+]);
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+/**
+ * Response to a long-polling request
+ *
+ * The client sends `cursor` back with its next request to get the messages
+ * after this response. Servers hold a request open until there is something
+ * to send or `wait` milliseconds have passed.
+ */
+export const LongPollResponseSchema = z.object({
+  messages: z.array(z.unknown()),
+  cursor: z.string(),
+});
+export type LongPollResponse = z.infer<typeof LongPollResponseSchema>;
+
+/**
+ * Where live data comes from; `auto` tries WebSocket, then Server-Sent
+ * Events, then long-polling, and uses the first that connects. `mqtt`
+ * subscribes to an MQTT broker instead of speaking this protocol. `replay`
+ * plays back a parsed CSV export and is started from the CSV parser page,
+ * never saved as a setting.
+ */
+export const RealtimeTransportKindSchema = z.enum(['simulator', 'websocket', 'sse', 'longpoll', 'auto', 'mqtt', 'replay']);
+export type RealtimeTransportKind = z.infer<typeof RealtimeTransportKindSchema>;
+
+/**
+ * Live data source settings, edited on the Settings page
+ */
+export const RealtimeSettingsSchema = z.object({
+  transport: RealtimeTransportKindSchema.exclude(['replay']),
+  /** WebSocket URL, e.g. `ws://localhost:8787` */
+  url: z.string(),
+  /** Server-Sent Events URL, e.g. `http://localhost:8787/events` */
+  sseUrl: z.string().default(''),
+  /** Long-polling URL, e.g. `http://localhost:8787/poll` */
+  pollUrl: z.string().default(''),
+  /** MQTT-over-WebSocket broker URL, e.g. `ws://localhost:8788/mqtt` */
+  mqttUrl: z.string().default(''),
+  /** MQTT topic filters; the first wildcard level is the device ID */
+  mqttTopics: z.array(z.string()).default(['carrygreen/+/telemetry']),
+  /** MQTT user name sent with the auth token */
+  mqttUsername: z.string().optional(),
+  /** Auth token sent in the hello message, or as the MQTT password */
+  authToken: z.string().optional(),
+});
+export type RealtimeSettings = z.infer<typeof RealtimeSettingsSchema>;
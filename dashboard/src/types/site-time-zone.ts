@@ -0,0 +1,26 @@
+/**
+ * CarryGreen Site Time Zone Types
+ *
+ * Loggers record wall-clock time at the site. Each device is assigned the
+ * IANA zone of its site so timestamps and daily totals don't depend on where
+ * the dashboard is viewed from.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Time zone assignment for sites and devices
+ */
+export const SiteTimeZoneConfigSchema = z.object({
+  /** IANA zone for devices without their own entry (e.g. `America/Chicago`) */
+  defaultTimeZone: z.string().min(1),
+  /** IANA zone per device ID */
+  devices: z.record(z.string(), z.string().min(1)),
+});
+export type SiteTimeZoneConfig = z.infer<typeof SiteTimeZoneConfigSchema>;
+
+/**
+ * Whether times are shown in the site's zone or the viewer's
+ */
+export const TimeDisplayModeSchema = z.enum(['site', 'viewer']);
+export type TimeDisplayMode = z.infer<typeof TimeDisplayModeSchema>;
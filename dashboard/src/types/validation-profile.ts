@@ -0,0 +1,59 @@
+/**
+ * CarryGreen Validation Profile Types
+ *
+ * Validation ranges vary by site: grid voltage and frequency depend on the
+ * region, and battery voltage on the size of the bank. A profile bundles the
+ * ranges used to validate one site's data.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Range used to validate a single field
+ */
+export const FieldValidationRuleSchema = z.object({
+  /** Nominal value for the field (e.g. 230 V, 50 Hz) */
+  nominal: z.number(),
+  /** Allowed deviation from nominal; values outside nominal ± tolerance are warnings */
+  tolerance: z.number().nonnegative(),
+  /** Lowest physically possible value; anything below is an error */
+  hardMin: z.number(),
+  /** Highest physically possible value; anything above is an error */
+  hardMax: z.number(),
+});
+export type FieldValidationRule = z.infer<typeof FieldValidationRuleSchema>;
+
+/**
+ * Fields that can be configured in a validation profile
+ */
+export const ValidationFieldSchema = z.enum([
+  'pvVoltage',
+  'pvCurrent',
+  'pvPower',
+  'energy',
+  'batteryVoltage',
+  'batteryCurrent',
+  'batteryTemperature',
+  'soc',
+  'acVoltage',
+  'acCurrent',
+  'frequency',
+]);
+export type ValidationField = z.infer<typeof ValidationFieldSchema>;
+
+/**
+ * Named set of validation rules for a site or region
+ */
+export const ValidationProfileSchema = z.object({
+  /** Unique profile identifier */
+  id: z.string().min(1),
+  /** Display name */
+  name: z.string(),
+  /** Optional longer description */
+  description: z.string().optional(),
+  /** Whether the profile ships with the app (built-ins can be reset) */
+  builtIn: z.boolean().optional(),
+  /** Rule per field */
+  rules: z.record(ValidationFieldSchema, FieldValidationRuleSchema),
+});
+export type ValidationProfile = z.infer<typeof ValidationProfileSchema>;